@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CURRENCY_LIST, Currency } from '@/lib/currency';
+
+interface CurrencySelectProps {
+  value: Currency;
+  onValueChange: (value: Currency) => void;
+  id?: string;
+  className?: string;
+}
+
+const CurrencySelect = ({ value, onValueChange, id, className }: CurrencySelectProps) => (
+  <Select value={value} onValueChange={(next: Currency) => onValueChange(next)}>
+    <SelectTrigger id={id} className={className}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {CURRENCY_LIST.map((currency) => (
+        <SelectItem key={currency.code} value={currency.code}>
+          {currency.code} ({currency.symbol.trim()})
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default CurrencySelect;
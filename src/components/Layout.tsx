@@ -8,7 +8,13 @@ import {
   PiggyBank, 
   Users, 
   LogOut,
-  DollarSign
+  DollarSign,
+  ArrowRightLeft,
+  FileBarChart,
+  Landmark,
+  Wallet,
+  Repeat,
+  Settings
 } from 'lucide-react';
 import { Link, useLocation, Outlet } from 'react-router-dom';
 
@@ -24,7 +30,13 @@ const Layout = ({ children }: LayoutProps) => {
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
     { name: 'Income', href: '/income', icon: TrendingUp },
     { name: 'Expenses', href: '/expenses', icon: TrendingDown },
+    { name: 'Budgets', href: '/budgets', icon: Wallet },
+    { name: 'Recurring', href: '/recurring', icon: Repeat },
+    { name: 'Exchanges', href: '/exchanges', icon: ArrowRightLeft },
     { name: 'Savings Goals', href: '/savings', icon: PiggyBank },
+    { name: 'Net Worth', href: '/net-worth', icon: Landmark },
+    { name: 'Reports', href: '/reports', icon: FileBarChart },
+    { name: 'Settings', href: '/settings', icon: Settings },
     { name: 'Admin', href: '/admin', icon: Users },
   ];
 
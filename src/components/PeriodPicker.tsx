@@ -0,0 +1,84 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PERIOD_KINDS, PeriodKind, PeriodSelection, currentPeriodIndex, periodIndexOptions } from '@/lib/periods';
+
+interface PeriodPickerProps {
+  value: PeriodSelection;
+  onChange: (value: PeriodSelection) => void;
+  // Fiscal years to offer, newest first
+  years: number[];
+  startMonth: number;
+  // Period kinds to offer; all of them by default
+  kinds?: PeriodKind[];
+}
+
+const PeriodPicker = ({ value, onChange, years, startMonth, kinds }: PeriodPickerProps) => {
+  const indexOptions = periodIndexOptions(value.kind, startMonth);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select
+        value={value.kind}
+        onValueChange={(kind: PeriodKind) => onChange({ ...value, kind, index: currentPeriodIndex(kind, startMonth) })}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PERIOD_KINDS.filter((kind) => !kinds || kinds.includes(kind.value)).map((kind) => (
+            <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.kind === 'custom' ? (
+        <>
+          <Input
+            type="date"
+            aria-label="From"
+            value={value.customStart}
+            max={value.customEnd}
+            onChange={(e) => e.target.value && onChange({ ...value, customStart: e.target.value })}
+            className="w-40"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            aria-label="To"
+            value={value.customEnd}
+            min={value.customStart}
+            onChange={(e) => e.target.value && onChange({ ...value, customEnd: e.target.value })}
+            className="w-40"
+          />
+        </>
+      ) : (
+        <>
+          {indexOptions.length > 0 && (
+            <Select value={value.index.toString()} onValueChange={(index) => onChange({ ...value, index: parseInt(index) })}>
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {indexOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value.toString()}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={value.year.toString()} onValueChange={(year) => onChange({ ...value, year: parseInt(year) })}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((year) => (
+                <SelectItem key={year} value={year.toString()}>FY{year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PeriodPicker;
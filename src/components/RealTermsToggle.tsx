@@ -0,0 +1,29 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+interface RealTermsToggleProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  // yyyy-MM, as used by <input type="month">
+  baseMonth: string;
+  onBaseMonthChange: (month: string) => void;
+}
+
+const RealTermsToggle = ({ enabled, onEnabledChange, baseMonth, onBaseMonthChange }: RealTermsToggleProps) => (
+  <div className="flex items-center space-x-2">
+    <Switch id="real-terms" checked={enabled} onCheckedChange={onEnabledChange} />
+    <Label htmlFor="real-terms" className="whitespace-nowrap">Real terms</Label>
+    {enabled && (
+      <Input
+        type="month"
+        aria-label="Base month"
+        value={baseMonth}
+        onChange={(e) => e.target.value && onBaseMonthChange(e.target.value)}
+        className="w-40"
+      />
+    )}
+  </div>
+);
+
+export default RealTermsToggle;
@@ -0,0 +1,329 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Edit, Plus, Trash2, TrendingUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency } from '@/lib/currency';
+import { annualInflation, buildCpiSeries } from '@/lib/inflation';
+
+interface CpiRow {
+  id: string;
+  currency: Currency;
+  month: string;
+  index_value: number;
+  source: string | null;
+}
+
+const chartConfig = {
+  index: {
+    label: 'Index',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const emptyForm = () => ({
+  currency: 'GHS' as Currency,
+  // yyyy-MM, as used by <input type="month">
+  month: new Date().toISOString().slice(0, 7),
+  index_value: '',
+  source: '',
+});
+
+const CpiManager = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<CpiRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<CpiRow | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [chartCurrency, setChartCurrency] = useState<Currency>('GHS');
+
+  useEffect(() => {
+    fetchEntries();
+  }, []);
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('consumer_price_index')
+        .select('id, currency, month, index_value, source')
+        .order('month', { ascending: false });
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching consumer price index:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch consumer price index",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const indexValue = parseFloat(formData.index_value);
+    if (!formData.month || !(indexValue > 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a month and enter a positive index value",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const entryData = {
+        currency: formData.currency,
+        month: `${formData.month}-01`,
+        index_value: indexValue,
+        source: formData.source || null,
+      };
+
+      if (editingEntry) {
+        const { error } = await supabase
+          .from('consumer_price_index')
+          .update(entryData)
+          .eq('id', editingEntry.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Index value updated successfully",
+        });
+      } else {
+        const { error } = await supabase
+          .from('consumer_price_index')
+          .insert([entryData]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Index value added successfully",
+        });
+      }
+
+      setIsDialogOpen(false);
+      setEditingEntry(null);
+      setFormData(emptyForm());
+      fetchEntries();
+    } catch (error) {
+      console.error('Error saving index value:', error);
+      toast({
+        title: "Error",
+        // 23505: UNIQUE(currency, month)
+        description: (error as { code?: string })?.code === '23505'
+          ? `A ${formData.currency} index already exists for ${formData.month}`
+          : "Failed to save index value",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (entry: CpiRow) => {
+    setEditingEntry(entry);
+    setFormData({
+      currency: entry.currency,
+      month: entry.month.slice(0, 7),
+      index_value: entry.index_value.toString(),
+      source: entry.source || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('consumer_price_index')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Index value deleted successfully",
+      });
+      fetchEntries();
+    } catch (error) {
+      console.error('Error deleting index value:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete index value",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const series = buildCpiSeries(entries);
+  const chartData = (series.get(chartCurrency) || []).map((entry) => ({
+    month: entry.month.slice(0, 7),
+    index: entry.index,
+  }));
+  const latestMonth = chartData.length > 0 ? `${chartData[chartData.length - 1].month}-01` : null;
+  const inflation = latestMonth ? annualInflation(series, chartCurrency, latestMonth) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <TrendingUp className="mr-2 h-5 w-5" />
+              Consumer Price Index
+            </CardTitle>
+            <CardDescription>Monthly index values used to restate amounts in real terms</CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => {
+                setEditingEntry(null);
+                setFormData(emptyForm());
+              }}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Index Value
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingEntry ? 'Edit Index Value' : 'Add Index Value'}
+                </DialogTitle>
+                <DialogDescription>
+                  The published CPI for a month, e.g. from the Ghana Statistical Service
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="cpi-currency">Currency</Label>
+                    <CurrencySelect value={formData.currency} onValueChange={(value) => setFormData({...formData, currency: value})} id="cpi-currency" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="cpi-month">Month *</Label>
+                    <Input
+                      id="cpi-month"
+                      type="month"
+                      value={formData.month}
+                      onChange={(e) => setFormData({...formData, month: e.target.value})}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="cpi-index">Index *</Label>
+                    <Input
+                      id="cpi-index"
+                      type="number"
+                      step="0.0001"
+                      placeholder="0.0000"
+                      value={formData.index_value}
+                      onChange={(e) => setFormData({...formData, index_value: e.target.value})}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="cpi-source">Source</Label>
+                    <Input
+                      id="cpi-source"
+                      placeholder="e.g., GSS CPI bulletin"
+                      value={formData.source}
+                      onChange={(e) => setFormData({...formData, source: e.target.value})}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingEntry ? 'Update' : 'Add'} Index Value
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-muted-foreground">Index history for</span>
+            <CurrencySelect value={chartCurrency} onValueChange={setChartCurrency} className="w-32" />
+          </div>
+          {inflation !== null && (
+            <span className="text-sm text-muted-foreground">
+              Annual inflation to {latestMonth.slice(0, 7)}: {(inflation * 100).toFixed(1)}%
+            </span>
+          )}
+        </div>
+
+        {chartData.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No {chartCurrency} index values recorded yet.
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <LineChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="index" type="monotone" stroke="var(--color-index)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No index values recorded yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between p-3 border rounded">
+                <div>
+                  <p className="font-medium">
+                    {entry.currency} {entry.month.slice(0, 7)}: {Number(entry.index_value)}
+                  </p>
+                  {entry.source && (
+                    <p className="text-sm text-muted-foreground">{entry.source}</p>
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(entry)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(entry.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CpiManager;
@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { fetchAllPages } from '@/lib/pagination';
+import {
+  RateColumn,
+  RateImportError,
+  RateImportPreviewRow,
+  parseRateFile,
+  previewRateImport,
+  withInverseRates,
+} from '@/lib/rateImport';
+
+interface CurrencyRateImportProps {
+  onImported?: () => void;
+}
+
+const statusVariant = {
+  new: 'default',
+  conflict: 'destructive',
+  unchanged: 'outline',
+} as const;
+
+const CurrencyRateImport = ({ onImported }: CurrencyRateImportProps) => {
+  const { toast } = useToast();
+  const [fileText, setFileText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [rateColumn, setRateColumn] = useState<RateColumn>('mid');
+  const [preview, setPreview] = useState<RateImportPreviewRow[]>([]);
+  const [errors, setErrors] = useState<RateImportError[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const buildPreview = async (text: string, column: RateColumn) => {
+    setLoading(true);
+    try {
+      const parsed = parseRateFile(text, column);
+      const incoming = withInverseRates(parsed.rates);
+      setErrors(parsed.errors);
+
+      if (incoming.length === 0) {
+        setPreview([]);
+        return;
+      }
+
+      // Incoming rows are sorted by date, so the first and last bound the lookup;
+      // every page is read so no existing rate is missed and shown as new
+      const data = await fetchAllPages((from, to) => supabase
+        .from('currency_rates')
+        .select('from_currency, to_currency, rate, date')
+        .in('from_currency', [...new Set(incoming.map((rate) => rate.from_currency))])
+        .in('to_currency', [...new Set(incoming.map((rate) => rate.to_currency))])
+        .gte('date', incoming[0].date)
+        .lte('date', incoming[incoming.length - 1].date)
+        .order('date')
+        .order('from_currency')
+        .order('to_currency')
+        .range(from, to));
+
+      setPreview(previewRateImport(incoming, data));
+    } catch (error) {
+      console.error('Error previewing rate import:', error);
+      toast({
+        title: "Error",
+        description: "Failed to compare the file with existing rates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setFileText(text);
+    buildPreview(text, rateColumn);
+  };
+
+  const handleColumnChange = (value: RateColumn) => {
+    setRateColumn(value);
+    if (fileText) buildPreview(fileText, value);
+  };
+
+  const pending = preview.filter((row) => row.status !== 'unchanged');
+  const conflicts = preview.filter((row) => row.status === 'conflict');
+
+  const handleImport = async () => {
+    if (pending.length === 0) return;
+
+    setImporting(true);
+    try {
+      const { error } = await supabase
+        .from('currency_rates')
+        .upsert(
+          pending.map(({ from_currency, to_currency, rate, date }) => ({ from_currency, to_currency, rate, date })),
+          { onConflict: 'from_currency,to_currency,date' }
+        );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Imported ${pending.length} exchange rate(s)`,
+      });
+
+      setFileText('');
+      setFileName('');
+      setPreview([]);
+      setErrors([]);
+      onImported?.();
+    } catch (error) {
+      console.error('Error importing currency rates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import exchange rates",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Upload className="mr-2 h-5 w-5" />
+          Import Exchange Rates
+        </CardTitle>
+        <CardDescription>
+          Upload a CSV with date, pair, buying, selling and mid columns. Inverse pairs are derived automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="rate-file">CSV File</Label>
+            <Input id="rate-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-column">Use Column as Rate</Label>
+            <Select value={rateColumn} onValueChange={handleColumnChange}>
+              <SelectTrigger id="rate-column">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mid">Mid</SelectItem>
+                <SelectItem value="buying">Buying</SelectItem>
+                <SelectItem value="selling">Selling</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{errors.length} line(s) skipped</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {errors.slice(0, 10).map((error) => (
+                  <li key={error.line}>Line {error.line}: {error.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : preview.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {preview.length} rate(s), {conflicts.length} overwriting a different existing rate,{' '}
+                {preview.length - pending.length} unchanged
+              </p>
+              <Button onClick={handleImport} disabled={importing || pending.length === 0}>
+                {importing ? 'Importing...' : `Import ${pending.length} Rate(s)`}
+              </Button>
+            </div>
+            <div className="max-h-96 overflow-auto border rounded">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Pair</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">Existing</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((row) => (
+                    <TableRow key={`${row.from_currency}-${row.to_currency}-${row.date}`}>
+                      <TableCell>{row.date}</TableCell>
+                      <TableCell>{row.from_currency} → {row.to_currency}</TableCell>
+                      <TableCell className="text-right">{row.rate}</TableCell>
+                      <TableCell className="text-right">{row.existingRate ?? '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant[row.status]} className="capitalize">{row.status}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CurrencyRateImport;
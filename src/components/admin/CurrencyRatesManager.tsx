@@ -0,0 +1,359 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, ArrowRightLeft, Edit, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency, findInverseMismatches } from '@/lib/currency';
+import { fetchAllPages } from '@/lib/pagination';
+
+interface CurrencyRateRow {
+  id: string;
+  from_currency: Currency;
+  to_currency: Currency;
+  rate: number;
+  date: string;
+}
+
+const buildChartConfig = (from: Currency, to: Currency) => ({
+  direct: {
+    label: `${from} → ${to}`,
+    color: 'hsl(var(--primary))',
+  },
+  inverse: {
+    label: `1 / (${to} → ${from})`,
+    color: 'hsl(var(--destructive))',
+  },
+} satisfies ChartConfig);
+
+const emptyForm = () => ({
+  from_currency: 'USD' as Currency,
+  to_currency: 'GHS' as Currency,
+  rate: '',
+  date: new Date().toISOString().split('T')[0],
+});
+
+interface CurrencyRatesManagerProps {
+  // Bump to reload rates changed elsewhere, e.g. by a CSV import
+  refreshKey?: number;
+}
+
+const CurrencyRatesManager = ({ refreshKey }: CurrencyRatesManagerProps) => {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<CurrencyRateRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<CurrencyRateRow | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [chartFrom, setChartFrom] = useState<Currency>('USD');
+  const [chartTo, setChartTo] = useState<Currency>('GHS');
+
+  useEffect(() => {
+    fetchRates();
+  }, [refreshKey]);
+
+  const fetchRates = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchAllPages((from, to) => supabase
+        .from('currency_rates')
+        .select('id, from_currency, to_currency, rate, date')
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, to));
+
+      setRates(data);
+    } catch (error) {
+      console.error('Error fetching currency rates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch currency rates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(formData.rate);
+    if (!formData.date || !(rate > 0) || formData.from_currency === formData.to_currency) {
+      toast({
+        title: "Validation Error",
+        description: "Choose two different currencies, a date and a positive rate",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const rateData = {
+        from_currency: formData.from_currency,
+        to_currency: formData.to_currency,
+        rate,
+        date: formData.date,
+      };
+
+      if (editingRate) {
+        const { error } = await supabase
+          .from('currency_rates')
+          .update(rateData)
+          .eq('id', editingRate.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Exchange rate updated successfully",
+        });
+      } else {
+        const { error } = await supabase
+          .from('currency_rates')
+          .insert([rateData]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Exchange rate added successfully",
+        });
+      }
+
+      setIsDialogOpen(false);
+      setEditingRate(null);
+      setFormData(emptyForm());
+      fetchRates();
+    } catch (error) {
+      console.error('Error saving currency rate:', error);
+      toast({
+        title: "Error",
+        // 23505: UNIQUE(from_currency, to_currency, date)
+        description: (error as { code?: string })?.code === '23505'
+          ? `A ${formData.from_currency} → ${formData.to_currency} rate already exists for ${formData.date}`
+          : "Failed to save exchange rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (rate: CurrencyRateRow) => {
+    setEditingRate(rate);
+    setFormData({
+      from_currency: rate.from_currency,
+      to_currency: rate.to_currency,
+      rate: rate.rate.toString(),
+      date: rate.date,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('currency_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Exchange rate deleted successfully",
+      });
+      fetchRates();
+    } catch (error) {
+      console.error('Error deleting currency rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete exchange rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const mismatches = findInverseMismatches(rates);
+
+  // One point per date, plotting both directions on the chartFrom → chartTo scale
+  const chartRates = rates.filter((rate) =>
+    (rate.from_currency === chartFrom && rate.to_currency === chartTo) ||
+    (rate.from_currency === chartTo && rate.to_currency === chartFrom)
+  );
+  const chartData = Array.from(new Set(chartRates.map((rate) => rate.date)))
+    .sort()
+    .map((date) => {
+      const direct = chartRates.find((rate) => rate.date === date && rate.from_currency === chartFrom);
+      const inverse = chartRates.find((rate) => rate.date === date && rate.from_currency === chartTo);
+      return {
+        date,
+        direct: direct ? Number(direct.rate) : undefined,
+        inverse: inverse ? 1 / Number(inverse.rate) : undefined,
+      };
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <ArrowRightLeft className="mr-2 h-5 w-5" />
+              Exchange Rates
+            </CardTitle>
+            <CardDescription>Dated rates used to convert records between currencies</CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => {
+                setEditingRate(null);
+                setFormData(emptyForm());
+              }}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Rate
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingRate ? 'Edit Exchange Rate' : 'Add Exchange Rate'}
+                </DialogTitle>
+                <DialogDescription>
+                  One unit of the first currency expressed in the second, effective from the given date
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="from-currency">From</Label>
+                    <CurrencySelect value={formData.from_currency} onValueChange={(value) => setFormData({...formData, from_currency: value})} id="from-currency" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="to-currency">To</Label>
+                    <CurrencySelect value={formData.to_currency} onValueChange={(value) => setFormData({...formData, to_currency: value})} id="to-currency" />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="rate">Rate *</Label>
+                    <Input
+                      id="rate"
+                      type="number"
+                      step="0.000001"
+                      placeholder="0.000000"
+                      value={formData.rate}
+                      onChange={(e) => setFormData({...formData, rate: e.target.value})}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rate-date">Effective Date *</Label>
+                    <Input
+                      id="rate-date"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => setFormData({...formData, date: e.target.value})}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingRate ? 'Update' : 'Add'} Rate
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {mismatches.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Inconsistent inverse rates</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {mismatches.map((mismatch) => (
+                  <li key={`${mismatch.from}-${mismatch.to}-${mismatch.date}`}>
+                    {mismatch.date}: {mismatch.from} → {mismatch.to} is {mismatch.rate}, but {mismatch.to} → {mismatch.from} is {mismatch.inverseRate} (expected {(1 / mismatch.rate).toFixed(6)}, off by {(mismatch.deviation * 100).toFixed(2)}%)
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-muted-foreground">Rate history for</span>
+          <CurrencySelect value={chartFrom} onValueChange={setChartFrom} className="w-32" />
+          <span className="text-sm text-muted-foreground">→</span>
+          <CurrencySelect value={chartTo} onValueChange={setChartTo} className="w-32" />
+        </div>
+
+        {chartData.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No {chartFrom} / {chartTo} rates recorded yet.
+          </p>
+        ) : (
+          <ChartContainer config={buildChartConfig(chartFrom, chartTo)} className="h-64 w-full">
+            <LineChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="direct" type="monotone" stroke="var(--color-direct)" strokeWidth={2} connectNulls />
+              <Line dataKey="inverse" type="monotone" stroke="var(--color-inverse)" strokeWidth={2} strokeDasharray="4 4" connectNulls />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : rates.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No exchange rates recorded yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rates.map((rate) => (
+              <div key={rate.id} className="flex items-center justify-between p-3 border rounded">
+                <div>
+                  <p className="font-medium">
+                    1 {rate.from_currency} = {Number(rate.rate)} {rate.to_currency}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Effective {new Date(rate.date).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(rate)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(rate.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CurrencyRatesManager;
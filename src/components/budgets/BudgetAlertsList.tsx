@@ -0,0 +1,85 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Bell, Check, Trash2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/currency';
+import { BudgetAlert, BudgetPeriodType, alertMessage, budgetPeriod } from '@/lib/budgets';
+
+interface BudgetAlertsListProps {
+  alerts: BudgetAlert[];
+  unreadCount: number;
+  loading: boolean;
+  startMonth: number;
+  onMarkRead: (ids: string[]) => void;
+  onRemove: (id: string) => void;
+}
+
+const BudgetAlertsList = ({ alerts, unreadCount, loading, startMonth, onMarkRead, onRemove }: BudgetAlertsListProps) => (
+  <Card>
+    <CardHeader>
+      <div className="flex items-center justify-between">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center">
+            <Bell className="mr-2 h-5 w-5" />
+            Budget Alerts
+            {unreadCount > 0 && (
+              <Badge variant="destructive" className="ml-2">{unreadCount} new</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Raised when spending in a category reaches one of its budget's alert thresholds
+          </CardDescription>
+        </div>
+        {unreadCount > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onMarkRead(alerts.filter((alert) => !alert.read_at).map((alert) => alert.id))}
+          >
+            <Check className="mr-2 h-4 w-4" />
+            Mark all read
+          </Button>
+        )}
+      </div>
+    </CardHeader>
+    <CardContent>
+      {loading ? (
+        <p className="text-center py-4">Loading...</p>
+      ) : alerts.length === 0 ? (
+        <p className="text-center py-4 text-muted-foreground">
+          No budget alerts yet.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {alerts.map((alert) => {
+            const period = budgetPeriod({ ...alert.budgets, period_type: alert.budgets.period_type as BudgetPeriodType }, startMonth);
+            return (
+              <div key={alert.id} className="flex items-center justify-between p-3 border rounded">
+                <div>
+                  <p className={alert.read_at ? 'text-muted-foreground' : 'font-medium'}>
+                    {alertMessage(alert.budgets.expense_categories.name, period.label, alert.threshold)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(alert.spent, alert.budgets.currency)} spent ({alert.percent_used}%) • {new Date(alert.triggered_at).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  {!alert.read_at && (
+                    <Button size="sm" variant="outline" onClick={() => onMarkRead([alert.id])} aria-label="Mark read">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => onRemove(alert.id)} aria-label="Delete alert">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default BudgetAlertsList;
@@ -0,0 +1,86 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency } from '@/lib/currency';
+import { formatMoney } from '@/lib/money';
+import { BudgetVariance, rolloverPolicyLabel } from '@/lib/budgets';
+
+interface RolloverHistoryDialogProps {
+  // Oldest first, ending with the budget being audited
+  chain: BudgetVariance[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const signedClass = (minor: number) =>
+  minor > 0 ? 'text-success' : minor < 0 ? 'text-destructive' : 'text-muted-foreground';
+
+const RolloverHistoryDialog = ({ chain, onOpenChange }: RolloverHistoryDialogProps) => {
+  const latest = chain[chain.length - 1];
+
+  return (
+    <Dialog open={chain.length > 0} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        {latest && (
+          <>
+            <DialogHeader>
+              <DialogTitle>
+                {latest.budget.expense_categories.name} – {latest.period.label} rollover history
+              </DialogTitle>
+              <DialogDescription>
+                How the carried amount built up, period by period. Each period's leftover is carried under its own
+                policy and converted into the next budget's currency at the end of the period.
+              </DialogDescription>
+            </DialogHeader>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead className="text-right">Budget</TableHead>
+                  <TableHead className="text-right">Carried In</TableHead>
+                  <TableHead className="text-right">Effective</TableHead>
+                  <TableHead className="text-right">Spent</TableHead>
+                  <TableHead className="text-right">Left Over</TableHead>
+                  <TableHead className="text-right">Carried Out</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {chain.map((variance) => (
+                  <TableRow key={variance.budget.id}>
+                    <TableCell className="font-medium">{variance.period.label}</TableCell>
+                    <TableCell>
+                      {rolloverPolicyLabel(variance.budget.rollover_policy)}
+                      {variance.budget.rollover_policy === 'capped' && variance.budget.rollover_cap !== null && (
+                        <span className="block text-xs text-muted-foreground">
+                          up to {formatCurrency(variance.budget.rollover_cap, variance.budget.currency)}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(variance.base)}</TableCell>
+                    <TableCell className={`text-right ${signedClass(variance.carriedIn.minor)}`}>
+                      {formatMoney(variance.carriedIn)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(variance.planned)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(variance.spent)}</TableCell>
+                    <TableCell className={`text-right ${signedClass(variance.remaining.minor)}`}>
+                      {formatMoney(variance.remaining)}
+                    </TableCell>
+                    <TableCell className={`text-right ${signedClass(variance.carriedOut.minor)}`}>
+                      {formatMoney(variance.carriedOut)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {chain.length === 1 && (
+              <p className="text-sm text-muted-foreground">
+                Nothing was carried into this period.
+              </p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RolloverHistoryDialog;
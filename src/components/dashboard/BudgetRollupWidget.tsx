@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useBudgets } from '@/hooks/useBudgets';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Wallet } from 'lucide-react';
+import { Currency, RateHistory } from '@/lib/currency';
+import { formatMoney, ratio } from '@/lib/money';
+import { ReportPeriod } from '@/lib/periods';
+import { rollupBudgets } from '@/lib/budgets';
+
+// Budgets listed by share used; the rest are on the Budgets page
+const TOP_BUDGETS = 5;
+
+interface BudgetRollupWidgetProps {
+  period: ReportPeriod;
+  currency: Currency;
+  rates: RateHistory;
+  startMonth: number;
+}
+
+const BudgetRollupWidget = ({ period, currency, rates, startMonth }: BudgetRollupWidgetProps) => {
+  const { variances, expenses, loading } = useBudgets(period.start, period.end, startMonth);
+
+  const rollup = useMemo(
+    () => rollupBudgets(variances, expenses, currency, rates),
+    [variances, expenses, currency, rates]
+  );
+  const mostUsed = [...variances].sort((a, b) => b.percentUsed - a.percentUsed).slice(0, TOP_BUDGETS);
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <Wallet className="mr-2 h-5 w-5" />
+              Budgets
+            </CardTitle>
+            <CardDescription>
+              Monthly and quarterly budgets within {period.label}, in {currency}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/budgets">Manage budgets</Link>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : variances.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No budgets set for {period.label}.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Planned</p>
+                <p className="font-medium">{formatMoney(rollup.planned)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Spent</p>
+                <p className="font-medium text-destructive">{formatMoney(rollup.spent)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Remaining</p>
+                <p className={`font-medium ${rollup.remaining.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+                  {formatMoney(rollup.remaining)}
+                </p>
+              </div>
+            </div>
+            <Progress value={Math.min(ratio(rollup.spent, rollup.planned) * 100, 100)} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {rollup.overCount} over budget • {rollup.nearCount} nearly spent
+              {rollup.unconverted > 0 && ` • ${rollup.unconverted} item(s) without a rate into ${currency} excluded`}
+            </p>
+            <div className="space-y-3">
+              {mostUsed.map((variance) => (
+                <div key={variance.budget.id} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      {variance.budget.expense_categories.name}
+                      <span className="ml-2 text-xs text-muted-foreground">{variance.period.label}</span>
+                    </span>
+                    <span className={variance.status === 'over' ? 'text-destructive' : 'text-muted-foreground'}>
+                      {(variance.percentUsed * 100).toFixed(0)}% of {formatMoney(variance.planned)}
+                    </span>
+                  </div>
+                  <Progress value={Math.min(variance.percentUsed * 100, 100)} className="h-1.5" />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BudgetRollupWidget;
@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { PieChart } from 'lucide-react';
+import { Currency, RateHistory } from '@/lib/currency';
+import { formatMoney } from '@/lib/money';
+import { CategoryExpense, summarizeCategories } from '@/lib/categories';
+import { RealTerms } from '@/lib/inflation';
+import { PeriodSelection, ReportPeriod, periodSearchParams } from '@/lib/periods';
+
+// Categories listed before the rest are left to the full report
+const TOP_CATEGORIES = 5;
+
+interface CategoryBreakdownWidgetProps {
+  period: ReportPeriod;
+  periodSelection: PeriodSelection;
+  currency: Currency;
+  rates: RateHistory;
+  realTerms?: RealTerms;
+}
+
+const CategoryBreakdownWidget = ({ period, periodSelection, currency, rates, realTerms }: CategoryBreakdownWidgetProps) => {
+  const { user } = useAuth();
+  const [expenses, setExpenses] = useState<CategoryExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchExpenses();
+    }
+  }, [user, period.start, period.end]);
+
+  const fetchExpenses = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('expense_records')
+        .select(`
+          id,
+          category_id,
+          amount,
+          currency,
+          expense_date,
+          description,
+          expense_categories (
+            name
+          )
+        `)
+        .eq('user_id', user?.id)
+        .gte('expense_date', period.start)
+        .lte('expense_date', period.end);
+
+      if (error) throw error;
+      setExpenses(data || []);
+    } catch (error) {
+      console.error('Error fetching category breakdown:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summary = useMemo(
+    () => summarizeCategories(expenses, [], currency, rates, realTerms),
+    [expenses, currency, rates, realTerms]
+  );
+  const deflated = realTerms && realTerms.cpi.has(currency);
+  const categories = summary.categories.filter((category) => category.count > 0);
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <PieChart className="mr-2 h-5 w-5" />
+              Spending by Category
+            </CardTitle>
+            <CardDescription>
+              Largest categories for {period.label} in {currency}
+              {deflated && ` at ${realTerms.baseMonth.slice(0, 7)} prices`}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to={`/reports?tab=categories&${periodSearchParams(periodSelection)}&currency=${currency}`}>
+              View report
+            </Link>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : categories.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No expenses recorded for {period.label}.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {categories.slice(0, TOP_CATEGORIES).map((category) => (
+              <div key={category.categoryId} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{category.name}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {formatMoney(category.total)} • {(category.share * 100).toFixed(1)}%
+                  </span>
+                </div>
+                <Progress value={category.share * 100} className="h-2" />
+              </div>
+            ))}
+            {categories.length > TOP_CATEGORIES && (
+              <p className="text-xs text-muted-foreground">
+                {categories.length - TOP_CATEGORIES} more categor{categories.length - TOP_CATEGORIES === 1 ? 'y' : 'ies'} in the full report
+              </p>
+            )}
+            {summary.unconverted > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {summary.unconverted} expense(s) without a rate into {currency} are excluded.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CategoryBreakdownWidget;
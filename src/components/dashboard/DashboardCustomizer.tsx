@@ -0,0 +1,169 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, LayoutDashboard } from 'lucide-react';
+import CurrencySelect from '@/components/CurrencySelect';
+import { PERIOD_KINDS } from '@/lib/periods';
+import {
+  DASHBOARD_WIDGETS,
+  DEFAULT_DASHBOARD_PREFERENCES,
+  DashboardPreferences,
+  DashboardWidgetId,
+  DefaultPeriodKind,
+  WIDGET_SIZES,
+  moveWidget,
+  widgetLabel,
+} from '@/lib/dashboardLayout';
+
+interface DashboardCustomizerProps {
+  draft: DashboardPreferences;
+  onChange: (draft: DashboardPreferences) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  saving: boolean;
+}
+
+const DashboardCustomizer = ({ draft, onChange, onSave, onCancel, saving }: DashboardCustomizerProps) => {
+  const { widgets } = draft;
+  const hidden = DASHBOARD_WIDGETS.filter((info) => !widgets.some((widget) => widget.id === info.id));
+
+  const setVisible = (id: DashboardWidgetId, visible: boolean) => {
+    const info = DASHBOARD_WIDGETS.find((widget) => widget.id === id);
+    onChange({
+      ...draft,
+      // Shown widgets go to the end; move them up from there
+      widgets: visible
+        ? [...widgets, { id, size: info?.defaultSize || 100 }]
+        : widgets.filter((widget) => widget.id !== id),
+    });
+  };
+
+  const setSize = (id: DashboardWidgetId, size: number) => {
+    onChange({ ...draft, widgets: widgets.map((widget) => (widget.id === id ? { ...widget, size } : widget)) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <LayoutDashboard className="mr-2 h-5 w-5" />
+          Customize Dashboard
+        </CardTitle>
+        <CardDescription>
+          Choose the widgets to show, their order and width. Drag the handles between widgets to fine-tune widths.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="default_period_kind">Default period</Label>
+            <Select
+              value={draft.defaultPeriodKind}
+              onValueChange={(value: DefaultPeriodKind) => onChange({ ...draft, defaultPeriodKind: value })}
+            >
+              <SelectTrigger id="default_period_kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIOD_KINDS.filter((kind) => kind.value !== 'custom').map((kind) => (
+                  <SelectItem key={kind.value} value={kind.value}>
+                    Current {kind.label.toLowerCase()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="default_currency">Default currency</Label>
+            <CurrencySelect
+              id="default_currency"
+              value={draft.defaultCurrency}
+              onValueChange={(value) => onChange({ ...draft, defaultCurrency: value })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {widgets.map((widget, i) => (
+            <div key={widget.id} className="flex items-center justify-between p-3 border rounded">
+              <div className="flex items-center space-x-3">
+                <Switch
+                  checked
+                  onCheckedChange={(checked) => setVisible(widget.id, checked)}
+                  aria-label={`Show ${widgetLabel(widget.id)}`}
+                />
+                <span className="font-medium">{widgetLabel(widget.id)}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Select
+                  value={String(Math.round(widget.size))}
+                  onValueChange={(value) => setSize(widget.id, Number(value))}
+                >
+                  <SelectTrigger className="w-24" aria-label={`${widgetLabel(widget.id)} width`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Keep a dragged width selectable until another is picked */}
+                    {(WIDGET_SIZES.includes(Math.round(widget.size)) ? WIDGET_SIZES : [...WIDGET_SIZES, Math.round(widget.size)].sort((a, b) => a - b))
+                      .map((size) => (
+                        <SelectItem key={size} value={String(size)}>
+                          {size}%
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={i === 0}
+                  onClick={() => onChange({ ...draft, widgets: moveWidget(widgets, widget.id, -1) })}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={i === widgets.length - 1}
+                  onClick={() => onChange({ ...draft, widgets: moveWidget(widgets, widget.id, 1) })}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {hidden.map((info) => (
+            <div key={info.id} className="flex items-center justify-between p-3 border rounded">
+              <div className="flex items-center space-x-3">
+                <Switch
+                  checked={false}
+                  onCheckedChange={(checked) => setVisible(info.id, checked)}
+                  aria-label={`Show ${info.label}`}
+                />
+                <span className="text-muted-foreground">{info.label}</span>
+              </div>
+              <span className="text-sm text-muted-foreground">Hidden</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => onChange(DEFAULT_DASHBOARD_PREFERENCES)}>
+            Reset to default
+          </Button>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={onCancel} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={onSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Layout'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DashboardCustomizer;
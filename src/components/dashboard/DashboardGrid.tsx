@@ -0,0 +1,80 @@
+import { Fragment, ReactNode, useRef } from 'react';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { DashboardWidget, DashboardWidgetId, MIN_WIDGET_SIZE, fillRow, packRows } from '@/lib/dashboardLayout';
+
+interface DashboardGridProps {
+  widgets: DashboardWidget[];
+  renderWidget: (id: DashboardWidgetId) => ReactNode;
+  // Handles are only draggable while the layout is being customized
+  editing: boolean;
+  onResize: (sizes: DashboardWidget[]) => void;
+}
+
+interface DashboardRowProps extends Omit<DashboardGridProps, 'widgets'> {
+  row: DashboardWidget[];
+}
+
+const DashboardRow = ({ row, renderWidget, editing, onResize }: DashboardRowProps) => {
+  const filled = fillRow(row);
+  const layout = useRef(filled.map((widget) => widget.size));
+
+  // Report sizes once a drag ends; reporting every step would remount the row mid-drag
+  const handleDragging = (dragging: boolean) => {
+    if (!dragging) {
+      onResize(row.map((widget, i) => ({ id: widget.id, size: layout.current[i] })));
+    }
+  };
+
+  return (
+    <ResizablePanelGroup
+      direction="horizontal"
+      className="!flex-col md:!flex-row"
+      onLayout={(sizes) => {
+        layout.current = sizes;
+      }}
+    >
+      {filled.map((widget, i) => (
+        <Fragment key={widget.id}>
+          {i > 0 && (
+            <ResizableHandle
+              withHandle={editing}
+              disabled={!editing}
+              onDragging={handleDragging}
+              className={`hidden md:flex mx-3 ${editing ? '' : 'bg-transparent'}`}
+            />
+          )}
+          <ResizablePanel
+            id={widget.id}
+            order={i}
+            defaultSize={widget.size}
+            minSize={MIN_WIDGET_SIZE}
+            className="!overflow-visible max-md:!flex-auto max-md:mb-6 max-md:last:mb-0"
+          >
+            {renderWidget(widget.id)}
+          </ResizablePanel>
+        </Fragment>
+      ))}
+    </ResizablePanelGroup>
+  );
+};
+
+/**
+ * Lays widgets out in rows of resizable panels. Each row is keyed by its
+ * widgets and sizes, so changing either from the customizer remounts it with
+ * the new layout.
+ */
+const DashboardGrid = ({ widgets, renderWidget, editing, onResize }: DashboardGridProps) => (
+  <div className="space-y-6">
+    {packRows(widgets).map((row) => (
+      <DashboardRow
+        key={row.map((widget) => `${widget.id}:${widget.size}`).join('|')}
+        row={row}
+        renderWidget={renderWidget}
+        editing={editing}
+        onResize={onResize}
+      />
+    ))}
+  </div>
+);
+
+export default DashboardGrid;
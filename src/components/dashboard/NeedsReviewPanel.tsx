@@ -0,0 +1,74 @@
+import { Link } from 'react-router-dom';
+import { useSpendingFlags } from '@/hooks/useSpendingFlags';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { SPENDING_FLAG_LABELS, SpendingFlag } from '@/lib/spendingFlags';
+
+interface NeedsReviewPanelProps {
+  startMonth: number;
+}
+
+// Shown only while there is unusual spending left to review
+const NeedsReviewPanel = ({ startMonth }: NeedsReviewPanelProps) => {
+  const { toast } = useToast();
+  const { flags, dismiss, loading } = useSpendingFlags(startMonth);
+
+  const handleDismiss = async (flag: SpendingFlag) => {
+    try {
+      await dismiss(flag);
+    } catch (error) {
+      console.error('Error dismissing spending flag:', error);
+      toast({
+        title: "Error",
+        description: "Failed to dismiss flag",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading || flags.length === 0) return null;
+
+  return (
+    <Card className="border-warning">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <AlertTriangle className="mr-2 h-5 w-5 text-warning" />
+          Needs Review
+        </CardTitle>
+        <CardDescription>
+          Spending outside your usual pattern over the last six months
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {flags.map((flag) => (
+            <div key={flag.key} className="flex items-center justify-between p-3 border rounded">
+              <div className="space-y-1">
+                <p className="font-medium flex items-center gap-2">
+                  {flag.categoryName}
+                  <Badge variant="outline">{SPENDING_FLAG_LABELS[flag.kind]}</Badge>
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {new Date(flag.date).toLocaleDateString()} • {flag.message}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" asChild>
+                  <Link to="/expenses">View</Link>
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDismiss(flag)}>
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NeedsReviewPanel;
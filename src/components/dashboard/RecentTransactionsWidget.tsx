@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { History, TrendingDown, TrendingUp } from 'lucide-react';
+import { Currency, formatCurrency } from '@/lib/currency';
+
+const RECENT_LIMIT = 8;
+
+interface RecentTransaction {
+  id: string;
+  kind: 'income' | 'expense';
+  label: string;
+  amount: number;
+  currency: Currency;
+  date: string;
+  createdAt: string;
+}
+
+const RecentTransactionsWidget = () => {
+  const { user } = useAuth();
+  const [transactions, setTransactions] = useState<RecentTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchTransactions();
+    }
+  }, [user]);
+
+  const fetchTransactions = async () => {
+    setLoading(true);
+    try {
+      // The latest of each kind is enough to find the latest overall
+      const { data: incomeData, error: incomeError } = await supabase
+        .from('income_records')
+        .select('id, source, amount, currency, income_date, created_at')
+        .eq('user_id', user?.id)
+        .order('income_date', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(RECENT_LIMIT);
+
+      if (incomeError) throw incomeError;
+
+      const { data: expenseData, error: expenseError } = await supabase
+        .from('expense_records')
+        .select(`
+          id,
+          amount,
+          currency,
+          expense_date,
+          description,
+          created_at,
+          expense_categories (
+            name
+          )
+        `)
+        .eq('user_id', user?.id)
+        .order('expense_date', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(RECENT_LIMIT);
+
+      if (expenseError) throw expenseError;
+
+      const merged: RecentTransaction[] = [
+        ...(incomeData || []).map((record) => ({
+          id: record.id,
+          kind: 'income' as const,
+          label: record.source,
+          amount: record.amount,
+          currency: record.currency,
+          date: record.income_date,
+          createdAt: record.created_at,
+        })),
+        ...(expenseData || []).map((record) => ({
+          id: record.id,
+          kind: 'expense' as const,
+          label: record.description || record.expense_categories?.name || 'Expense',
+          amount: record.amount,
+          currency: record.currency,
+          date: record.expense_date,
+          createdAt: record.created_at,
+        })),
+      ];
+      merged.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+      setTransactions(merged.slice(0, RECENT_LIMIT));
+    } catch (error) {
+      console.error('Error fetching recent transactions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="mr-2 h-5 w-5" />
+          Recent Transactions
+        </CardTitle>
+        <CardDescription>
+          Latest income and expenses in their original currency
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : transactions.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No income or expenses recorded yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {transactions.map((transaction) => (
+              <div key={`${transaction.kind}-${transaction.id}`} className="flex items-center justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                  {transaction.kind === 'income' ? (
+                    <TrendingUp className="h-4 w-4 shrink-0 text-success" />
+                  ) : (
+                    <TrendingDown className="h-4 w-4 shrink-0 text-destructive" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{transaction.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(transaction.date).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{transaction.currency}</Badge>
+                  <span className={`font-medium ${transaction.kind === 'income' ? 'text-success' : 'text-destructive'}`}>
+                    {transaction.kind === 'income' ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecentTransactionsWidget;
@@ -0,0 +1,33 @@
+import { Link } from 'react-router-dom';
+import { useRecurring } from '@/hooks/useRecurring';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Repeat } from 'lucide-react';
+
+interface RecurringDueAlertProps {
+  startMonth: number;
+}
+
+// Loading the schedules here also generates due occurrences whenever the Dashboard opens
+const RecurringDueAlert = ({ startMonth }: RecurringDueAlertProps) => {
+  const { pending, loading } = useRecurring(startMonth);
+
+  if (loading || pending.length === 0) return null;
+
+  return (
+    <Alert>
+      <Repeat className="h-4 w-4" />
+      <AlertTitle>Recurring items due</AlertTitle>
+      <AlertDescription className="flex items-center justify-between gap-4">
+        <span>
+          {pending.length} recurring occurrence(s) are waiting to be confirmed or skipped.
+        </span>
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/recurring">Review</Link>
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default RecurringDueAlert;
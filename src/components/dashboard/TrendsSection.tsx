@@ -0,0 +1,275 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { Currency, RateHistory } from '@/lib/currency';
+import { toAmount } from '@/lib/money';
+import { RealTerms } from '@/lib/inflation';
+import { DatedAmount, TrendGranularity, buildTrend, trendBuckets } from '@/lib/trends';
+
+type TrendView = 'converted' | 'currency';
+
+const CURRENCY_COLORS: Record<Currency, string> = {
+  USD: 'hsl(var(--primary))',
+  GHS: 'hsl(var(--success))',
+  EUR: 'hsl(var(--info))',
+  GBP: 'hsl(var(--warning))',
+  NGN: 'hsl(var(--destructive))',
+  XOF: 'hsl(var(--muted-foreground))',
+};
+
+const convertedConfig = {
+  income: {
+    label: 'Income',
+    color: 'hsl(var(--success))',
+  },
+  expenses: {
+    label: 'Expenses',
+    color: 'hsl(var(--destructive))',
+  },
+  net: {
+    label: 'Net savings',
+    color: 'hsl(var(--primary))',
+  },
+  savingsRate: {
+    label: 'Savings rate (%)',
+    color: 'hsl(var(--info))',
+  },
+} satisfies ChartConfig;
+
+// One series per currency and measure, e.g. income_GHS, all in the reporting currency
+const buildCurrencyConfig = (currencies: Currency[]) => {
+  const config: ChartConfig = {};
+  currencies.forEach((currency) => {
+    config[`income_${currency}`] = { label: `${currency} income`, color: CURRENCY_COLORS[currency] };
+    config[`expenses_${currency}`] = { label: `${currency} expenses`, color: CURRENCY_COLORS[currency] };
+    config[`net_${currency}`] = { label: currency, color: CURRENCY_COLORS[currency] };
+    config[`rate_${currency}`] = { label: currency, color: CURRENCY_COLORS[currency] };
+  });
+  return config;
+};
+
+interface TrendsSectionProps {
+  currency: Currency;
+  rates: RateHistory;
+  startMonth: number;
+  // The trend ends with the month or quarter containing this date
+  anchor: string;
+  realTerms?: RealTerms;
+}
+
+const TrendsSection = ({ currency, rates, startMonth, anchor, realTerms }: TrendsSectionProps) => {
+  const { user } = useAuth();
+  const [granularity, setGranularity] = useState<TrendGranularity>('quarter');
+  const [count, setCount] = useState(8);
+  const [view, setView] = useState<TrendView>('converted');
+  const [incomeRecords, setIncomeRecords] = useState<DatedAmount[]>([]);
+  const [expenseRecords, setExpenseRecords] = useState<DatedAmount[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const buckets = trendBuckets(granularity, count, anchor, startMonth);
+  const rangeStart = buckets[0].start;
+  const rangeEnd = buckets[buckets.length - 1].end;
+
+  useEffect(() => {
+    if (user) {
+      fetchTrendData();
+    }
+  }, [user, rangeStart, rangeEnd]);
+
+  const fetchTrendData = async () => {
+    setLoading(true);
+    try {
+      const { data: incomeData } = await supabase
+        .from('income_records')
+        .select('amount, currency, income_date')
+        .eq('user_id', user?.id)
+        .gte('income_date', rangeStart)
+        .lte('income_date', rangeEnd);
+
+      const { data: expenseData } = await supabase
+        .from('expense_records')
+        .select('amount, currency, expense_date')
+        .eq('user_id', user?.id)
+        .gte('expense_date', rangeStart)
+        .lte('expense_date', rangeEnd);
+
+      setIncomeRecords((incomeData || []).map((record) => ({
+        amount: record.amount,
+        currency: record.currency,
+        date: record.income_date,
+      })));
+      setExpenseRecords((expenseData || []).map((record) => ({
+        amount: record.amount,
+        currency: record.currency,
+        date: record.expense_date,
+      })));
+    } catch (error) {
+      console.error('Error fetching trend data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const trend = buildTrend(buckets, incomeRecords, expenseRecords, currency, rates, realTerms);
+  const deflated = realTerms && realTerms.cpi.has(currency);
+
+  const chartData = trend.points.map((point) => {
+    const row: Record<string, string | number | null> = {
+      label: point.label,
+      income: toAmount(point.income),
+      expenses: toAmount(point.expenses),
+      net: toAmount(point.net),
+      savingsRate: point.savingsRate === null ? null : Number((point.savingsRate * 100).toFixed(1)),
+    };
+    trend.currencies.forEach((code) => {
+      const values = point.byCurrency.get(code);
+      const income = values ? toAmount(values.income) : 0;
+      const expenses = values ? toAmount(values.expenses) : 0;
+      row[`income_${code}`] = income;
+      row[`expenses_${code}`] = expenses;
+      row[`net_${code}`] = income - expenses;
+      row[`rate_${code}`] = income > 0 ? Number((((income - expenses) / income) * 100).toFixed(1)) : null;
+    });
+    return row;
+  });
+
+  const byCurrency = view === 'currency';
+  const chartConfig = byCurrency ? buildCurrencyConfig(trend.currencies) : convertedConfig;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <LineChartIcon className="mr-2 h-5 w-5" />
+              Trends
+            </CardTitle>
+            <CardDescription>
+              Income, expenses and savings over the last {count} {granularity === 'month' ? 'months' : 'quarters'}, in {currency}
+              {deflated && ` at ${realTerms.baseMonth.slice(0, 7)} prices`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <ToggleGroup type="single" variant="outline" size="sm" value={view} onValueChange={(value: TrendView) => value && setView(value)}>
+              <ToggleGroupItem value="converted">Converted</ToggleGroupItem>
+              <ToggleGroupItem value="currency">By currency</ToggleGroupItem>
+            </ToggleGroup>
+            <Select value={granularity} onValueChange={(value: TrendGranularity) => setGranularity(value)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Monthly</SelectItem>
+                <SelectItem value="quarter">Quarterly</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={count.toString()} onValueChange={(value) => setCount(parseInt(value))}>
+              <SelectTrigger className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="4">4</SelectItem>
+                <SelectItem value="6">6</SelectItem>
+                <SelectItem value="8">8</SelectItem>
+                <SelectItem value="12">12</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Income vs. Expenses</h3>
+              <ChartContainer config={chartConfig} className="h-72 w-full">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {byCurrency ? (
+                    trend.currencies.flatMap((code) => [
+                      <Bar key={`income_${code}`} dataKey={`income_${code}`} stackId="income" fill={`var(--color-income_${code})`} />,
+                      <Bar key={`expenses_${code}`} dataKey={`expenses_${code}`} stackId="expenses" fill={`var(--color-expenses_${code})`} fillOpacity={0.5} />,
+                    ])
+                  ) : (
+                    [
+                      <Bar key="income" dataKey="income" fill="var(--color-income)" radius={4} />,
+                      <Bar key="expenses" dataKey="expenses" fill="var(--color-expenses)" radius={4} />,
+                    ]
+                  )}
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Net Savings</h3>
+                <ChartContainer config={chartConfig} className="h-56 w-full">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    {byCurrency && <ChartLegend content={<ChartLegendContent />} />}
+                    {byCurrency ? (
+                      trend.currencies.map((code) => (
+                        <Line key={code} dataKey={`net_${code}`} type="monotone" stroke={`var(--color-net_${code})`} strokeWidth={2} />
+                      ))
+                    ) : (
+                      <Line dataKey="net" type="monotone" stroke="var(--color-net)" strokeWidth={2} />
+                    )}
+                  </LineChart>
+                </ChartContainer>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Savings Rate (%)</h3>
+                <ChartContainer config={chartConfig} className="h-56 w-full">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    {byCurrency && <ChartLegend content={<ChartLegendContent />} />}
+                    {byCurrency ? (
+                      trend.currencies.map((code) => (
+                        <Line key={code} dataKey={`rate_${code}`} type="monotone" stroke={`var(--color-rate_${code})`} strokeWidth={2} connectNulls />
+                      ))
+                    ) : (
+                      <Line dataKey="savingsRate" type="monotone" stroke="var(--color-savingsRate)" strokeWidth={2} connectNulls />
+                    )}
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            </div>
+
+            {trend.unconverted > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {trend.unconverted} record(s) have no rate into {currency} and are left out of these charts.
+              </p>
+            )}
+            {deflated && trend.undeflated > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {trend.undeflated} record(s) fall outside the {currency} price index and are charted in nominal terms.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrendsSection;
@@ -0,0 +1,69 @@
+import { Link } from 'react-router-dom';
+import { useEnvelopeBudget } from '@/hooks/useEnvelopeBudget';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Inbox } from 'lucide-react';
+import { Currency } from '@/lib/currency';
+import { formatMoney } from '@/lib/money';
+import { unassignedFor } from '@/lib/envelopes';
+
+interface UnassignedWidgetProps {
+  currency: Currency;
+}
+
+const UnassignedWidget = ({ currency }: UnassignedWidgetProps) => {
+  const { since, incomes, allocations, summary, loading } = useEnvelopeBudget(currency);
+
+  const pending = incomes.filter((income) => unassignedFor(income, allocations).minor > 0).length;
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Inbox className="mr-2 h-5 w-5" />
+          Unassigned
+        </CardTitle>
+        <CardDescription>
+          Income not yet given to an envelope, in {currency}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : !since ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Envelope budgeting is off.
+            </p>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/settings">Turn it on</Link>
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className={`text-2xl font-bold ${summary.unassigned.minor === 0 ? 'text-success' : 'text-warning'}`}>
+              {formatMoney(summary.unassigned)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {pending === 0
+                ? 'Every income record is fully assigned'
+                : `${pending} income record(s) still to assign`}
+            </p>
+            {summary.unconverted > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {summary.unconverted} record(s) without a rate into {currency} are not counted.
+              </p>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <Link to={pending === 0 ? '/budgets' : '/income'}>
+                {pending === 0 ? 'View envelopes' : 'Assign income'}
+              </Link>
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnassignedWidget;
@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/currency';
+import { add, amountStep, formatMoney, money, negate, parseAmount, subtract, sumAmounts, toAmount } from '@/lib/money';
+import {
+  Envelope,
+  EnvelopeAllocation,
+  EnvelopeIncome,
+  isAllocationLimitError,
+  keyTarget,
+  targetKey,
+} from '@/lib/envelopes';
+
+interface AllocationDialogProps {
+  income: EnvelopeIncome | null;
+  envelopes: Envelope[];
+  allocations: EnvelopeAllocation[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const AllocationDialog = ({ income, envelopes, allocations, onOpenChange, onSaved }: AllocationDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // Amount typed per envelope key
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const existing = income
+    ? allocations.filter((allocation) => allocation.income_record_id === income.id)
+    : [];
+
+  useEffect(() => {
+    if (!income) return;
+    setAmounts(Object.fromEntries(
+      allocations
+        .filter((allocation) => allocation.income_record_id === income.id)
+        .map((allocation) => [targetKey(allocation), allocation.amount.toString()])
+    ));
+  }, [income, allocations]);
+
+  if (!income) return null;
+
+  const parsed = (key: string) => (amounts[key] ? parseAmount(amounts[key], income.currency) : 0);
+  // Allocations to goals no longer active aren't listed but still count
+  const keys = new Set([...envelopes.map((envelope) => envelope.key), ...existing.map(targetKey)]);
+  const remaining = subtract(
+    money(income.amount, income.currency),
+    sumAmounts(Array.from(keys).map(parsed), income.currency)
+  );
+
+  const assignRemaining = (key: string) => {
+    setAmounts({ ...amounts, [key]: toAmount(add(money(parsed(key), income.currency), remaining)).toString() });
+  };
+
+  const handleSave = async () => {
+    if (Array.from(keys).some((key) => parsed(key) < 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Amounts can't be negative",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (remaining.minor < 0) {
+      toast({
+        title: "Validation Error",
+        description: `You've assigned ${formatMoney(negate(remaining))} more than this income`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const byKey = new Map(existing.map((allocation) => [targetKey(allocation), allocation]));
+      const removed = existing.filter((allocation) => parsed(targetKey(allocation)) === 0);
+      const decreased = existing.filter((allocation) => {
+        const amount = parsed(targetKey(allocation));
+        return amount > 0 && amount < allocation.amount;
+      });
+      const increased = existing.filter((allocation) => parsed(targetKey(allocation)) > allocation.amount);
+      const added = envelopes.filter((envelope) => !byKey.has(envelope.key) && parsed(envelope.key) > 0);
+
+      // Shrink before growing, so the running total never passes the income amount
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('envelope_allocations')
+          .delete()
+          .in('id', removed.map((allocation) => allocation.id));
+
+        if (error) throw error;
+      }
+
+      for (const allocation of [...decreased, ...increased]) {
+        const { error } = await supabase
+          .from('envelope_allocations')
+          .update({ amount: parsed(targetKey(allocation)) })
+          .eq('id', allocation.id);
+
+        if (error) throw error;
+      }
+
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from('envelope_allocations')
+          .insert(added.map((envelope) => ({
+            user_id: user?.id,
+            income_record_id: income.id,
+            ...keyTarget(envelope.key),
+            amount: parsed(envelope.key),
+          })));
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: remaining.minor === 0
+          ? "Income fully assigned"
+          : `Allocations saved; ${formatMoney(remaining)} still unassigned`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving allocations:', error);
+      toast({
+        title: "Error",
+        description: isAllocationLimitError(error)
+          ? "Allocations can't add up to more than the income amount"
+          : "Failed to save allocations",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+      // Saves up to the failing step stick, so reload either way
+      onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={!!income} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Assign {income.source}</DialogTitle>
+          <DialogDescription>
+            Split {formatCurrency(income.amount, income.currency)} across your categories and savings goals
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {envelopes.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              Add expense categories or savings goals to assign income to.
+            </p>
+          ) : (
+            envelopes.map((envelope) => (
+              <div key={envelope.key} className="flex items-center gap-2">
+                <Label htmlFor={`allocation-${envelope.key}`} className="flex-1">
+                  {envelope.name}
+                  <span className="block text-xs text-muted-foreground">
+                    {envelope.kind === 'category' ? 'Expense category' : 'Savings goal'}
+                  </span>
+                </Label>
+                <Input
+                  id={`allocation-${envelope.key}`}
+                  type="number"
+                  min="0"
+                  step={amountStep(income.currency)}
+                  placeholder="0.00"
+                  className="w-32"
+                  value={amounts[envelope.key] || ''}
+                  onChange={(e) => setAmounts({ ...amounts, [envelope.key]: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => assignRemaining(envelope.key)}
+                  disabled={remaining.minor <= 0}
+                >
+                  Rest
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+        <p className={`text-sm ${remaining.minor < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {remaining.minor < 0
+            ? `Over-assigned by ${formatMoney(negate(remaining))}`
+            : `Unassigned: ${formatMoney(remaining)}`}
+        </p>
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || remaining.minor < 0}>
+            {saving ? 'Saving...' : 'Save Allocations'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AllocationDialog;
@@ -0,0 +1,374 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useEnvelopeBudget } from '@/hooks/useEnvelopeBudget';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ArrowRightLeft, History, Inbox, Mail, TrendingDown } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency, formatCurrency } from '@/lib/currency';
+import { amountStep, formatMoney, negate, parseAmount, sum } from '@/lib/money';
+import { EnvelopeTransfer, keyTarget, transferDestination, transferSource } from '@/lib/envelopes';
+
+interface EnvelopesPanelProps {
+  currency: Currency;
+}
+
+const EnvelopesPanel = ({ currency }: EnvelopesPanelProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { since, envelopes, transfers, summary, loading, refetch } = useEnvelopeBudget(currency);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const emptyForm = () => ({
+    from: '',
+    to: '',
+    amount: '',
+    currency,
+    transfer_date: new Date().toISOString().split('T')[0],
+    reason: '',
+  });
+  const [formData, setFormData] = useState(emptyForm());
+
+  const envelopeName = (key: string) =>
+    envelopes.find((envelope) => envelope.key === key)?.name || 'Inactive goal';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.from || !formData.to || !formData.amount || !formData.reason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.from === formData.to) {
+      toast({
+        title: "Validation Error",
+        description: "Choose two different envelopes",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const amount = parseAmount(formData.amount, formData.currency);
+    if (amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Amount must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const from = keyTarget(formData.from);
+      const to = keyTarget(formData.to);
+      const { error } = await supabase
+        .from('envelope_transfers')
+        .insert([{
+          user_id: user?.id,
+          from_category_id: from.category_id,
+          from_savings_goal_id: from.savings_goal_id,
+          to_category_id: to.category_id,
+          to_savings_goal_id: to.savings_goal_id,
+          amount,
+          currency: formData.currency,
+          transfer_date: formData.transfer_date,
+          reason: formData.reason.trim(),
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Moved ${formatCurrency(amount, formData.currency)} to ${envelopeName(formData.to)}`,
+      });
+      setIsDialogOpen(false);
+      setFormData(emptyForm());
+      refetch();
+    } catch (error) {
+      console.error('Error moving money:', error);
+      toast({
+        title: "Error",
+        description: "Failed to move money",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeTransfer = (transfer: EnvelopeTransfer) =>
+    `${envelopeName(transferSource(transfer))} → ${envelopeName(transferDestination(transfer))}`;
+
+  if (loading) {
+    return <p className="text-center py-4">Loading...</p>;
+  }
+
+  if (!since) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center space-y-4">
+          <p className="text-muted-foreground">
+            Envelope budgeting is off. Turn it on to assign each income record to categories and savings goals until nothing is unassigned.
+          </p>
+          <Button variant="outline" asChild>
+            <Link to="/settings">Open Settings</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const available = sum(summary.balances.map((row) => row.balance), currency);
+  const overspent = summary.balances.filter((row) => row.balance.minor < 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Unassigned</CardTitle>
+            <Inbox className="h-4 w-4 text-warning" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${summary.unassigned.minor === 0 ? 'text-success' : 'text-warning'}`}>
+              {formatMoney(summary.unassigned)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {summary.unassigned.minor === 0
+                ? 'Every unit of income has a job'
+                : 'Assign it from the Income page'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">In Envelopes</CardTitle>
+            <Mail className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${available.minor >= 0 ? 'text-primary' : 'text-destructive'}`}>
+              {formatMoney(available)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Assigned since {new Date(since).toLocaleDateString()}, less spending
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overspent</CardTitle>
+            <TrendingDown className="h-4 w-4 text-destructive" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-destructive">
+              {overspent.length}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Envelope(s) below zero; move money in to cover them
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {summary.unconverted > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {summary.unconverted} record(s) have no rate into {currency} and are left out of the totals above.
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center">
+                <Mail className="mr-2 h-5 w-5" />
+                Envelopes
+              </CardTitle>
+              <CardDescription>
+                Income assigned to each category and goal, drawn down by expenses and savings deposits, in {currency}
+              </CardDescription>
+            </div>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" onClick={() => setFormData(emptyForm())}>
+                  <ArrowRightLeft className="mr-2 h-4 w-4" />
+                  Move Money
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Move Money</DialogTitle>
+                  <DialogDescription>
+                    Shift assigned money from one envelope to another. Every move is kept in the log.
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="transfer-from">From *</Label>
+                      <Select value={formData.from} onValueChange={(value) => setFormData({...formData, from: value})}>
+                        <SelectTrigger id="transfer-from">
+                          <SelectValue placeholder="Select envelope" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {envelopes.map((envelope) => (
+                            <SelectItem key={envelope.key} value={envelope.key}>{envelope.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="transfer-to">To *</Label>
+                      <Select value={formData.to} onValueChange={(value) => setFormData({...formData, to: value})}>
+                        <SelectTrigger id="transfer-to">
+                          <SelectValue placeholder="Select envelope" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {envelopes
+                            .filter((envelope) => envelope.key !== formData.from)
+                            .map((envelope) => (
+                              <SelectItem key={envelope.key} value={envelope.key}>{envelope.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="transfer-amount">Amount *</Label>
+                      <Input
+                        id="transfer-amount"
+                        type="number"
+                        step={amountStep(formData.currency)}
+                        placeholder="0.00"
+                        value={formData.amount}
+                        onChange={(e) => setFormData({...formData, amount: e.target.value})}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="transfer-currency">Currency</Label>
+                      <CurrencySelect value={formData.currency} onValueChange={(value) => setFormData({...formData, currency: value})} />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="transfer-date">Date *</Label>
+                    <Input
+                      id="transfer-date"
+                      type="date"
+                      value={formData.transfer_date}
+                      onChange={(e) => setFormData({...formData, transfer_date: e.target.value})}
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="transfer-reason">Reason *</Label>
+                    <Textarea
+                      id="transfer-reason"
+                      placeholder="e.g., Groceries ran over this month"
+                      value={formData.reason}
+                      onChange={(e) => setFormData({...formData, reason: e.target.value})}
+                      required
+                    />
+                  </div>
+
+                  <div className="flex justify-end space-x-2">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit">Move Money</Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {summary.balances.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              No envelopes yet. Expense categories and active savings goals appear here.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {summary.balances.map((row) => (
+                <div key={row.envelope.key} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      {row.envelope.name}
+                      <Badge variant="outline">
+                        {row.envelope.kind === 'category' ? 'Category' : 'Goal'}
+                      </Badge>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Assigned {formatMoney(row.allocated)}
+                      {row.moved.minor !== 0 && ` • Moved ${row.moved.minor > 0 ? 'in' : 'out'} ${formatMoney(row.moved.minor > 0 ? row.moved : negate(row.moved))}`}
+                      {' • '}{row.envelope.kind === 'category' ? 'Spent' : 'Deposited'} {formatMoney(row.spent)}
+                    </p>
+                  </div>
+                  <span className={`font-medium ${row.balance.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+                    {row.balance.minor >= 0
+                      ? formatMoney(row.balance)
+                      : `Over by ${formatMoney(negate(row.balance))}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Transfer Log
+          </CardTitle>
+          <CardDescription>
+            Money moved between envelopes, newest first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {transfers.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              No money moved between envelopes yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {transfers.map((transfer) => (
+                <div key={transfer.id} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <p className="font-medium">{describeTransfer(transfer)}</p>
+                    <p className="text-sm text-muted-foreground">{transfer.reason}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(transfer.transfer_date).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className="font-medium">{formatCurrency(transfer.amount, transfer.currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EnvelopesPanel;
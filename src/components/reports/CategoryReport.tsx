@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { useConsumerPriceIndex } from '@/hooks/useConsumerPriceIndex';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Cell, Pie, PieChart } from 'recharts';
+import { PieChart as PieChartIcon, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CurrencySelect from '@/components/CurrencySelect';
+import PeriodPicker from '@/components/PeriodPicker';
+import RealTermsToggle from '@/components/RealTermsToggle';
+import { Currency, CURRENCIES, formatCurrency } from '@/lib/currency';
+import { formatMoney, toAmount } from '@/lib/money';
+import { CategoryExpense, expenseValue, summarizeCategories } from '@/lib/categories';
+import { RealTerms } from '@/lib/inflation';
+import { PeriodSelection, defaultPeriodSelection, periodSelectionFromSearch, previousPeriod, resolvePeriod } from '@/lib/periods';
+
+const CATEGORY_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--success))',
+  'hsl(var(--warning))',
+  'hsl(var(--destructive))',
+  'hsl(var(--info))',
+  'hsl(280 65% 60%)',
+  'hsl(330 80% 60%)',
+  'hsl(180 60% 40%)',
+  'hsl(var(--muted-foreground))',
+];
+
+const CategoryReport = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const { series: cpi } = useConsumerPriceIndex();
+  const { startMonth, years } = useFiscalYear();
+  const [searchParams] = useSearchParams();
+  const linkedCurrency = searchParams.get('currency') as Currency;
+  const [currency, setCurrency] = useState<Currency>(CURRENCIES[linkedCurrency] ? linkedCurrency : 'USD');
+  const [periodSelection, setPeriodSelection] = useState<PeriodSelection>(
+    periodSelectionFromSearch(searchParams, defaultPeriodSelection())
+  );
+  const [expenses, setExpenses] = useState<CategoryExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
+  const [realTermsEnabled, setRealTermsEnabled] = useState(false);
+  const [baseMonth, setBaseMonth] = useState(new Date().toISOString().slice(0, 7));
+
+  const period = resolvePeriod(periodSelection, startMonth);
+  const previous = previousPeriod(periodSelection, startMonth);
+
+  // A period linked from another page is kept; otherwise start on the current fiscal quarter
+  useEffect(() => {
+    if (!searchParams.get('period')) {
+      setPeriodSelection(defaultPeriodSelection(startMonth));
+    }
+  }, [startMonth, searchParams]);
+
+  useEffect(() => {
+    if (user) {
+      fetchExpenses();
+    }
+  }, [user, previous.start, period.end]);
+
+  const fetchExpenses = async () => {
+    setLoading(true);
+    try {
+      // The previous period ends the day before this one starts, so one range covers both
+      const { data, error } = await supabase
+        .from('expense_records')
+        .select(`
+          id,
+          category_id,
+          amount,
+          currency,
+          expense_date,
+          description,
+          expense_categories (
+            name
+          )
+        `)
+        .eq('user_id', user?.id)
+        .gte('expense_date', previous.start)
+        .lte('expense_date', period.end)
+        .order('expense_date', { ascending: false });
+
+      if (error) throw error;
+      setExpenses(data || []);
+    } catch (error) {
+      console.error('Error fetching expenses by category:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch expenses",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currentExpenses = expenses.filter((expense) => expense.expense_date >= period.start);
+  const previousExpenses = expenses.filter((expense) => expense.expense_date <= previous.end);
+  const realTerms = useMemo<RealTerms | undefined>(
+    () => (realTermsEnabled ? { baseMonth: `${baseMonth}-01`, cpi } : undefined),
+    [realTermsEnabled, baseMonth, cpi]
+  );
+  // Without an index for the report currency every amount stays nominal
+  const deflated = realTermsEnabled && cpi.has(currency);
+  const summary = summarizeCategories(currentExpenses, previousExpenses, currency, rates, deflated ? realTerms : undefined);
+
+  const spent = summary.categories.filter((category) => category.total.minor > 0);
+  const chartConfig: ChartConfig = {};
+  spent.forEach((category, i) => {
+    chartConfig[category.categoryId] = { label: category.name, color: CATEGORY_COLORS[i % CATEGORY_COLORS.length] };
+  });
+  const chartData = spent.map((category) => ({
+    categoryId: category.categoryId,
+    value: toAmount(category.total),
+  }));
+
+  const selectedCategory = summary.categories.find((category) => category.categoryId === selectedCategoryId);
+  const drillDown = currentExpenses.filter((expense) => expense.category_id === selectedCategoryId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center">
+                <PieChartIcon className="mr-2 h-5 w-5" />
+                Spending by Category
+              </CardTitle>
+              <CardDescription>
+                {period.label}, compared with {previous.label}, in {currency}
+                {deflated && ` at ${baseMonth} prices`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RealTermsToggle
+                enabled={realTermsEnabled}
+                onEnabledChange={setRealTermsEnabled}
+                baseMonth={baseMonth}
+                onBaseMonthChange={setBaseMonth}
+              />
+              <CurrencySelect value={currency} onValueChange={setCurrency} className="w-32" />
+              <PeriodPicker value={periodSelection} onChange={setPeriodSelection} years={years} startMonth={startMonth} />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-center py-4">Loading...</p>
+          ) : summary.categories.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              No expenses recorded for {period.label} or {previous.label}.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                {spent.length === 0 ? (
+                  <p className="text-center py-4 text-muted-foreground">
+                    No expenses recorded for {period.label}.
+                  </p>
+                ) : (
+                  <ChartContainer config={chartConfig} className="mx-auto aspect-square h-72">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="categoryId" hideLabel />} />
+                      <Pie
+                        data={chartData}
+                        dataKey="value"
+                        nameKey="categoryId"
+                        innerRadius={60}
+                        className="cursor-pointer"
+                        onClick={(entry) => setSelectedCategoryId(entry.categoryId)}
+                      >
+                        {chartData.map((entry) => (
+                          <Cell
+                            key={entry.categoryId}
+                            fill={`var(--color-${entry.categoryId})`}
+                            opacity={selectedCategoryId && selectedCategoryId !== entry.categoryId ? 0.4 : 1}
+                          />
+                        ))}
+                      </Pie>
+                    </PieChart>
+                  </ChartContainer>
+                )}
+                <p className="text-center text-sm text-muted-foreground">
+                  Total {formatMoney(summary.total)} (previously {formatMoney(summary.previousTotal)})
+                </p>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Spent</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">vs. {previous.label}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.categories.map((category) => (
+                    <TableRow
+                      key={category.categoryId}
+                      className={`cursor-pointer ${category.categoryId === selectedCategoryId ? 'bg-muted/50' : ''}`}
+                      onClick={() => setSelectedCategoryId(category.categoryId)}
+                    >
+                      <TableCell className="font-medium">{category.name}</TableCell>
+                      <TableCell className="text-right">{formatMoney(category.total)}</TableCell>
+                      <TableCell className="text-right">{(category.share * 100).toFixed(1)}%</TableCell>
+                      <TableCell className={`text-right ${category.change.minor > 0 ? 'text-destructive' : 'text-success'}`}>
+                        {category.change.minor > 0 ? '+' : ''}{formatMoney(category.change)}
+                        {category.changePercent !== null && ` (${(category.changePercent * 100).toFixed(1)}%)`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {summary.unconverted > 0 && (
+            <p className="text-xs text-muted-foreground mt-4">
+              {summary.unconverted} expense(s) have no rate into {currency} and are left out.
+            </p>
+          )}
+          {realTermsEnabled && !deflated && (
+            <p className="text-xs text-muted-foreground mt-4">
+              There is no {currency} price index, so amounts are shown in nominal terms.
+            </p>
+          )}
+          {deflated && summary.undeflated > 0 && (
+            <p className="text-xs text-muted-foreground mt-4">
+              {summary.undeflated} expense(s) fall outside the {currency} price index, or the base month does, and are included in nominal terms.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedCategory && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="space-y-1.5">
+                <CardTitle>{selectedCategory.name}</CardTitle>
+                <CardDescription>
+                  {drillDown.length} expense(s) in {period.label}
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setSelectedCategoryId(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {drillDown.length === 0 ? (
+              <p className="text-center py-4 text-muted-foreground">
+                Nothing spent in this category during {period.label}.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">In {currency}{deflated && ` (${baseMonth} prices)`}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drillDown.map((expense) => {
+                    const converted = expenseValue(expense, currency, rates, deflated ? realTerms : undefined);
+                    return (
+                      <TableRow key={expense.id}>
+                        <TableCell>{new Date(expense.expense_date).toLocaleDateString()}</TableCell>
+                        <TableCell>{expense.description || '—'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(expense.amount, expense.currency)}</TableCell>
+                        <TableCell className="text-right">{converted ? formatMoney(converted.money) : 'No rate'}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CategoryReport;
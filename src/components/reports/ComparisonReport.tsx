@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { useConsumerPriceIndex } from '@/hooks/useConsumerPriceIndex';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Columns2, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CurrencySelect from '@/components/CurrencySelect';
+import PeriodPicker from '@/components/PeriodPicker';
+import RealTermsToggle from '@/components/RealTermsToggle';
+import { Currency } from '@/lib/currency';
+import { formatMoney } from '@/lib/money';
+import { ComparisonData, ComparisonLine, comparePeriods, comparisonRows } from '@/lib/comparison';
+import { downloadCsv } from '@/lib/csv';
+import { RealTerms } from '@/lib/inflation';
+import {
+  PeriodSelection,
+  ReportPeriod,
+  defaultPeriodSelection,
+  previousPeriodSelection,
+  resolvePeriod,
+  samePeriodLastYear,
+} from '@/lib/periods';
+
+const emptyData: ComparisonData = { income: [], expenses: [], deposits: [], withdrawals: [] };
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+interface ComparisonTableProps {
+  title: string;
+  lines: ComparisonLine[];
+  total?: ComparisonLine;
+  currentLabel: string;
+  baselineLabel: string;
+  // Expenses going up is shown as a bad change, income and savings going up as a good one
+  increaseIsGood: boolean;
+}
+
+const ComparisonTable = ({ title, lines, total, currentLabel, baselineLabel, increaseIsGood }: ComparisonTableProps) => {
+  const changeClass = (line: ComparisonLine) => {
+    if (line.change.minor === 0) return '';
+    return (line.change.minor > 0) === increaseIsGood ? 'text-success' : 'text-destructive';
+  };
+
+  const renderCells = (line: ComparisonLine) => (
+    <>
+      <TableCell className="text-right">{formatMoney(line.current)}</TableCell>
+      <TableCell className="text-right">{formatMoney(line.baseline)}</TableCell>
+      <TableCell className={`text-right ${changeClass(line)}`}>
+        {line.change.minor > 0 ? '+' : ''}{formatMoney(line.change)}
+      </TableCell>
+      <TableCell className={`text-right ${changeClass(line)}`}>{formatPercent(line.changePercent)}</TableCell>
+    </>
+  );
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead></TableHead>
+            <TableHead className="text-right">{currentLabel}</TableHead>
+            <TableHead className="text-right">{baselineLabel}</TableHead>
+            <TableHead className="text-right">Change</TableHead>
+            <TableHead className="text-right">Change %</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground">
+                Nothing recorded in either period.
+              </TableCell>
+            </TableRow>
+          ) : (
+            lines.map((line) => (
+              <TableRow key={line.label}>
+                <TableCell className="font-medium">{line.label}</TableCell>
+                {renderCells(line)}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+        {total && lines.length > 0 && (
+          <TableFooter>
+            <TableRow>
+              <TableCell>{total.label}</TableCell>
+              {renderCells(total)}
+            </TableRow>
+          </TableFooter>
+        )}
+      </Table>
+    </div>
+  );
+};
+
+const ComparisonReport = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const { series: cpi } = useConsumerPriceIndex();
+  const { startMonth, years } = useFiscalYear();
+  const [currency, setCurrency] = useState<Currency>('USD');
+  const [realTermsEnabled, setRealTermsEnabled] = useState(false);
+  const [baseMonth, setBaseMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [currentSelection, setCurrentSelection] = useState<PeriodSelection>(defaultPeriodSelection());
+  const [baselineSelection, setBaselineSelection] = useState<PeriodSelection>(samePeriodLastYear(defaultPeriodSelection()));
+  const [currentData, setCurrentData] = useState<ComparisonData>(emptyData);
+  const [baselineData, setBaselineData] = useState<ComparisonData>(emptyData);
+  const [loading, setLoading] = useState(true);
+
+  const period = resolvePeriod(currentSelection, startMonth);
+  const baseline = resolvePeriod(baselineSelection, startMonth);
+
+  // Start on this fiscal quarter against the same quarter last year
+  useEffect(() => {
+    const selection = defaultPeriodSelection(startMonth);
+    setCurrentSelection(selection);
+    setBaselineSelection(samePeriodLastYear(selection));
+  }, [startMonth]);
+
+  useEffect(() => {
+    if (user) {
+      fetchComparisonData();
+    }
+  }, [user, period.start, period.end, baseline.start, baseline.end]);
+
+  const fetchPeriodData = async (range: ReportPeriod): Promise<ComparisonData> => {
+    const { data: incomeData, error: incomeError } = await supabase
+      .from('income_records')
+      .select('amount, currency, income_date, source')
+      .eq('user_id', user?.id)
+      .gte('income_date', range.start)
+      .lte('income_date', range.end);
+
+    if (incomeError) throw incomeError;
+
+    const { data: expenseData, error: expenseError } = await supabase
+      .from('expense_records')
+      .select(`
+        amount,
+        currency,
+        expense_date,
+        expense_categories (
+          name
+        )
+      `)
+      .eq('user_id', user?.id)
+      .gte('expense_date', range.start)
+      .lte('expense_date', range.end);
+
+    if (expenseError) throw expenseError;
+
+    const { data: transactionData, error: transactionError } = await supabase
+      .from('savings_transactions')
+      .select(`
+        amount,
+        transaction_date,
+        transaction_type,
+        savings_goals!inner (
+          currency,
+          user_id
+        )
+      `)
+      .eq('savings_goals.user_id', user?.id)
+      .gte('transaction_date', range.start)
+      .lte('transaction_date', range.end);
+
+    if (transactionError) throw transactionError;
+
+    const transactions = (transactionData || []).map((transaction) => ({
+      type: transaction.transaction_type,
+      amount: transaction.amount,
+      currency: transaction.savings_goals.currency,
+      date: transaction.transaction_date,
+    }));
+
+    return {
+      income: (incomeData || []).map((record) => ({
+        label: record.source || 'Unspecified',
+        amount: record.amount,
+        currency: record.currency,
+        date: record.income_date,
+      })),
+      expenses: (expenseData || []).map((record) => ({
+        label: record.expense_categories?.name || 'Uncategorized',
+        amount: record.amount,
+        currency: record.currency,
+        date: record.expense_date,
+      })),
+      deposits: transactions.filter((transaction) => transaction.type === 'deposit'),
+      withdrawals: transactions.filter((transaction) => transaction.type === 'withdrawal'),
+    };
+  };
+
+  const fetchComparisonData = async () => {
+    setLoading(true);
+    try {
+      const [current, previous] = await Promise.all([fetchPeriodData(period), fetchPeriodData(baseline)]);
+      setCurrentData(current);
+      setBaselineData(previous);
+    } catch (error) {
+      console.error('Error fetching comparison data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch comparison data",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const realTerms = useMemo<RealTerms | undefined>(
+    () => (realTermsEnabled ? { baseMonth: `${baseMonth}-01`, cpi } : undefined),
+    [realTermsEnabled, baseMonth, cpi]
+  );
+  // Without an index for the report currency every amount stays nominal
+  const deflated = realTermsEnabled && cpi.has(currency);
+  const comparison = comparePeriods(currentData, baselineData, currency, rates, deflated ? realTerms : undefined);
+
+  const handleExport = () => {
+    const filename = `comparison-${period.label}-vs-${baseline.label}-${currency}${deflated ? `-real-${baseMonth}` : ''}`
+      .replace(/[^A-Za-z0-9]+/g, '-');
+    downloadCsv(`${filename}.csv`, comparisonRows(comparison, period.label, baseline.label, deflated ? baseMonth : undefined));
+  };
+
+  // The baseline may sit in a fiscal year with no records yet
+  const baselineYears = Array.from(new Set([...years, baselineSelection.year])).sort((a, b) => b - a);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <Columns2 className="mr-2 h-5 w-5" />
+              Period Comparison
+            </CardTitle>
+            <CardDescription>
+              {period.label} against {baseline.label}, converted into {currency} at each record's date
+              {deflated && ` and restated in ${baseMonth} prices`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RealTermsToggle
+              enabled={realTermsEnabled}
+              onEnabledChange={setRealTermsEnabled}
+              baseMonth={baseMonth}
+              onBaseMonthChange={setBaseMonth}
+            />
+            <CurrencySelect value={currency} onValueChange={setCurrency} className="w-32" />
+            <Button variant="outline" onClick={handleExport} disabled={loading}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Period</Label>
+            <PeriodPicker value={currentSelection} onChange={setCurrentSelection} years={years} startMonth={startMonth} />
+          </div>
+          <div className="space-y-2">
+            <Label>Compared with</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <PeriodPicker value={baselineSelection} onChange={setBaselineSelection} years={baselineYears} startMonth={startMonth} />
+              <Button variant="ghost" size="sm" onClick={() => setBaselineSelection(samePeriodLastYear(currentSelection))}>
+                Last year
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setBaselineSelection(previousPeriodSelection(currentSelection))}>
+                Previous period
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : (
+          <>
+            <ComparisonTable
+              title="Income by Source"
+              lines={comparison.income.lines}
+              total={comparison.income.total}
+              currentLabel={period.label}
+              baselineLabel={baseline.label}
+              increaseIsGood
+            />
+            <ComparisonTable
+              title="Expenses by Category"
+              lines={comparison.expenses.lines}
+              total={comparison.expenses.total}
+              currentLabel={period.label}
+              baselineLabel={baseline.label}
+              increaseIsGood={false}
+            />
+            <ComparisonTable
+              title="Savings"
+              lines={comparison.savings}
+              currentLabel={period.label}
+              baselineLabel={baseline.label}
+              increaseIsGood
+            />
+            <p className="text-sm text-muted-foreground">
+              Savings rate: {formatPercent(comparison.savingsRate.current)} in {period.label}, {formatPercent(comparison.savingsRate.baseline)} in {baseline.label}
+            </p>
+            {comparison.unconverted > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {comparison.unconverted} record(s) have no rate into {currency} and are left out.
+              </p>
+            )}
+            {comparison.fallbackConversions > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {comparison.fallbackConversions} record(s) predate the first recorded exchange rate and were converted with the earliest available rate.
+              </p>
+            )}
+            {realTermsEnabled && !deflated && (
+              <p className="text-xs text-muted-foreground">
+                There is no {currency} price index, so amounts are shown in nominal terms.
+              </p>
+            )}
+            {deflated && comparison.undeflated > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {comparison.undeflated} record(s) fall outside the {currency} price index, or the base month does, and are included in nominal terms.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComparisonReport;
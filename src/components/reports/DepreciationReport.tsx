@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { TrendingDown } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency } from '@/lib/currency';
+import { formatMoney, toAmount } from '@/lib/money';
+import { SavingsGoalRow, SavingsTransactionRow, revalueGoal } from '@/lib/revaluation';
+
+const chartConfig = {
+  value: {
+    label: 'Value today',
+    color: 'hsl(var(--primary))',
+  },
+  costBasis: {
+    label: 'Value when saved',
+    color: 'hsl(var(--muted-foreground))',
+  },
+} satisfies ChartConfig;
+
+const DepreciationReport = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const [goals, setGoals] = useState<SavingsGoalRow[]>([]);
+  const [transactions, setTransactions] = useState<SavingsTransactionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [compareCurrency, setCompareCurrency] = useState<Currency>('USD');
+  const [selectedGoalId, setSelectedGoalId] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      fetchSavingsHistory();
+    }
+  }, [user]);
+
+  const fetchSavingsHistory = async () => {
+    setLoading(true);
+    try {
+      const { data: goalsData, error: goalsError } = await supabase
+        .from('savings_goals')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: true });
+
+      if (goalsError) throw goalsError;
+
+      // RLS only returns transactions on the user's own goals
+      const { data: transactionsData, error: transactionsError } = await supabase
+        .from('savings_transactions')
+        .select('*')
+        .order('transaction_date', { ascending: true });
+
+      if (transactionsError) throw transactionsError;
+
+      setGoals(goalsData || []);
+      setTransactions(transactionsData || []);
+      if (goalsData && goalsData.length > 0) {
+        setSelectedGoalId((goalsData.find((goal) => goal.currency !== 'USD') || goalsData[0]).id);
+      }
+    } catch (error) {
+      console.error('Error fetching savings history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch savings history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revaluations = goals.map((goal) => ({
+    goal,
+    revaluation: revalueGoal(
+      goal,
+      transactions.filter((transaction) => transaction.savings_goal_id === goal.id),
+      compareCurrency,
+      rates
+    ),
+  }));
+
+  const selected = revaluations.find(({ goal }) => goal.id === selectedGoalId);
+  const chartData = selected?.revaluation.points.map((point) => ({
+    date: point.date,
+    value: point.value ? toAmount(point.value) : undefined,
+    costBasis: toAmount(point.costBasis),
+  })) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <TrendingDown className="mr-2 h-5 w-5" />
+              Currency Depreciation Impact
+            </CardTitle>
+            <CardDescription>
+              What each savings goal is worth in another currency, compared with what it was worth when you saved it
+            </CardDescription>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="compare-currency" className="text-xs text-muted-foreground">Value in</Label>
+            <CurrencySelect id="compare-currency" value={compareCurrency} onValueChange={setCompareCurrency} className="w-32" />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : goals.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No savings goals yet. Create a goal and record deposits to see how its value moves.
+          </p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Goal</TableHead>
+                  <TableHead className="text-right">Nominal Balance</TableHead>
+                  <TableHead className="text-right">Value When Saved</TableHead>
+                  <TableHead className="text-right">Value Today</TableHead>
+                  <TableHead className="text-right">Purchasing Power Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revaluations.map(({ goal, revaluation }) => (
+                  <TableRow
+                    key={goal.id}
+                    className={`cursor-pointer ${goal.id === selectedGoalId ? 'bg-muted/50' : ''}`}
+                    onClick={() => setSelectedGoalId(goal.id)}
+                  >
+                    <TableCell className="font-medium">{goal.name}</TableCell>
+                    <TableCell className="text-right">{formatMoney(revaluation.nominal)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(revaluation.costBasis)}</TableCell>
+                    <TableCell className="text-right">
+                      {revaluation.value ? formatMoney(revaluation.value) : 'No rate'}
+                    </TableCell>
+                    <TableCell className={`text-right ${revaluation.change && revaluation.change.minor < 0 ? 'text-destructive' : 'text-success'}`}>
+                      {revaluation.change ? formatMoney(revaluation.change) : '—'}
+                      {revaluation.changePercent !== null && ` (${(revaluation.changePercent * 100).toFixed(1)}%)`}
+                      {revaluation.unconvertedFlows > 0 && (
+                        <span className="block text-xs text-muted-foreground">
+                          {revaluation.unconvertedFlows} transaction(s) without a rate
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-muted-foreground">History for</span>
+                <Select value={selectedGoalId} onValueChange={setSelectedGoalId}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Select a goal" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {goals.map((goal) => (
+                      <SelectItem key={goal.id} value={goal.id}>
+                        {goal.name} ({goal.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {selected && selected.goal.currency === compareCurrency ? (
+                <p className="text-center py-4 text-muted-foreground">
+                  This goal is already held in {compareCurrency}. Choose another currency to compare.
+                </p>
+              ) : chartData.length === 0 ? (
+                <p className="text-center py-4 text-muted-foreground">
+                  No deposits recorded for this goal yet.
+                </p>
+              ) : (
+                <ChartContainer config={chartConfig} className="h-72 w-full">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="costBasis" type="stepAfter" stroke="var(--color-costBasis)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+                    <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={false} connectNulls />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DepreciationReport;
@@ -0,0 +1,325 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { CalendarClock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency } from '@/lib/currency';
+import { formatMoney, toAmount } from '@/lib/money';
+import { ComparisonRecord } from '@/lib/comparison';
+import { ForecastGoal, buildForecast } from '@/lib/forecast';
+import { fetchAllPages } from '@/lib/pagination';
+
+const flowConfig = {
+  income: {
+    label: 'Income',
+    color: 'hsl(var(--success))',
+  },
+  incomeRange: {
+    label: 'Income range',
+    color: 'hsl(var(--success))',
+  },
+  expenses: {
+    label: 'Expenses',
+    color: 'hsl(var(--destructive))',
+  },
+  expensesRange: {
+    label: 'Expenses range',
+    color: 'hsl(var(--destructive))',
+  },
+} satisfies ChartConfig;
+
+const balanceConfig = {
+  closing: {
+    label: 'Closing balance',
+    color: 'hsl(var(--primary))',
+  },
+  closingRange: {
+    label: 'Likely range',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const ForecastReport = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const { startMonth } = useFiscalYear();
+  const [currency, setCurrency] = useState<Currency>('USD');
+  const [count, setCount] = useState(4);
+  const [incomeRecords, setIncomeRecords] = useState<ComparisonRecord[]>([]);
+  const [expenseRecords, setExpenseRecords] = useState<ComparisonRecord[]>([]);
+  const [goals, setGoals] = useState<ForecastGoal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchForecastData();
+    }
+  }, [user]);
+
+  const fetchForecastData = async () => {
+    setLoading(true);
+    try {
+      // Every record feeds the opening balance, not just the averaged history
+      const incomeData = await fetchAllPages((from, to) => supabase
+        .from('income_records')
+        .select('amount, currency, income_date, source')
+        .eq('user_id', user?.id)
+        .order('income_date')
+        .order('id')
+        .range(from, to));
+
+      const expenseData = await fetchAllPages((from, to) => supabase
+        .from('expense_records')
+        .select(`
+          amount,
+          currency,
+          expense_date,
+          expense_categories (
+            name
+          )
+        `)
+        .eq('user_id', user?.id)
+        .order('expense_date')
+        .order('id')
+        .range(from, to));
+
+      const { data: goalData, error: goalError } = await supabase
+        .from('savings_goals')
+        .select('name, currency, target_amount, current_amount, target_date')
+        .eq('user_id', user?.id)
+        .eq('is_active', true)
+        .not('target_date', 'is', null);
+
+      if (goalError) throw goalError;
+
+      setIncomeRecords(incomeData.map((record) => ({
+        label: record.source || 'Unspecified',
+        amount: record.amount,
+        currency: record.currency,
+        date: record.income_date,
+      })));
+      setExpenseRecords(expenseData.map((record) => ({
+        label: record.expense_categories?.name || 'Uncategorized',
+        amount: record.amount,
+        currency: record.currency,
+        date: record.expense_date,
+      })));
+      setGoals(goalData || []);
+    } catch (error) {
+      console.error('Error fetching forecast data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch forecast data",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const forecast = buildForecast(incomeRecords, expenseRecords, goals, count, currency, rates, startMonth);
+
+  // Actual quarters first, then the projection with its band
+  const flowData = [
+    ...forecast.history.map((point) => ({
+      label: point.label,
+      income: toAmount(point.income),
+      expenses: toAmount(point.expenses),
+    })),
+    ...forecast.periods.map((period) => ({
+      label: period.label,
+      income: toAmount(period.income),
+      incomeRange: [toAmount(period.incomeLow), toAmount(period.incomeHigh)],
+      expenses: toAmount(period.expenses),
+      expensesRange: [toAmount(period.expensesLow), toAmount(period.expensesHigh)],
+    })),
+  ];
+
+  const openingAmount = toAmount(forecast.opening);
+  const balanceData = [
+    { label: 'Today', closing: openingAmount, closingRange: [openingAmount, openingAmount] },
+    ...forecast.periods.map((period) => ({
+      label: period.label,
+      closing: toAmount(period.closing),
+      closingRange: [toAmount(period.closingLow), toAmount(period.closingHigh)],
+    })),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <CalendarClock className="mr-2 h-5 w-5" />
+              Cash-flow Forecast
+            </CardTitle>
+            <CardDescription>
+              Next {count} {count === 1 ? 'quarter' : 'quarters'} from seasonal averages per source and category, in {currency}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <CurrencySelect value={currency} onValueChange={setCurrency} className="w-32" />
+            <Select value={count.toString()} onValueChange={(value) => setCount(parseInt(value))}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 quarter</SelectItem>
+                <SelectItem value="2">2 quarters</SelectItem>
+                <SelectItem value="3">3 quarters</SelectItem>
+                <SelectItem value="4">4 quarters</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : forecast.history.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            Record income and expenses for at least one full quarter to see a forecast.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Income and Expenses</h3>
+                <ChartContainer config={flowConfig} className="h-64 w-full">
+                  <ComposedChart data={flowData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Area dataKey="incomeRange" type="monotone" fill="var(--color-incomeRange)" fillOpacity={0.15} stroke="none" />
+                    <Area dataKey="expensesRange" type="monotone" fill="var(--color-expensesRange)" fillOpacity={0.15} stroke="none" />
+                    <Line dataKey="income" type="monotone" stroke="var(--color-income)" strokeWidth={2} />
+                    <Line dataKey="expenses" type="monotone" stroke="var(--color-expenses)" strokeWidth={2} />
+                  </ComposedChart>
+                </ChartContainer>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Projected Closing Balance</h3>
+                <ChartContainer config={balanceConfig} className="h-64 w-full">
+                  <ComposedChart data={balanceData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Area dataKey="closingRange" type="monotone" fill="var(--color-closingRange)" fillOpacity={0.15} stroke="none" />
+                    <Line dataKey="closing" type="monotone" stroke="var(--color-closing)" strokeWidth={2} />
+                  </ComposedChart>
+                </ChartContainer>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quarter</TableHead>
+                  <TableHead className="text-right">Income</TableHead>
+                  <TableHead className="text-right">Expenses</TableHead>
+                  <TableHead className="text-right">Goals due</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">Closing balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {forecast.periods.map((period) => (
+                  <TableRow key={period.label}>
+                    <TableCell className="font-medium">{period.label}</TableCell>
+                    <TableCell className="text-right text-success">{formatMoney(period.income)}</TableCell>
+                    <TableCell className="text-right text-destructive">{formatMoney(period.expenses)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(period.goalTotal)}</TableCell>
+                    <TableCell className={`text-right ${period.net.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+                      {formatMoney(period.net)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="font-medium">{formatMoney(period.closing)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatMoney(period.closingLow)} – {formatMoney(period.closingHigh)}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {forecast.periods.map((period) => (
+                <div key={period.label} className="p-4 border rounded-lg space-y-3 text-sm">
+                  <p className="font-medium">{period.label}</p>
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">Expected income</p>
+                    {period.incomeBySource.length === 0 ? (
+                      <p className="text-muted-foreground">None</p>
+                    ) : (
+                      period.incomeBySource.map((line) => (
+                        <div key={line.label} className="flex justify-between">
+                          <span>{line.label}</span>
+                          <span>{formatMoney(line.expected)}</span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">Expected expenses</p>
+                    {period.expensesByCategory.length === 0 ? (
+                      <p className="text-muted-foreground">None</p>
+                    ) : (
+                      period.expensesByCategory.map((line) => (
+                        <div key={line.label} className="flex justify-between">
+                          <span>{line.label}</span>
+                          <span>{formatMoney(line.expected)}</span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                  {period.goals.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-muted-foreground">Savings goals due</p>
+                      {period.goals.map((goal) => (
+                        <div key={goal.name} className="flex justify-between">
+                          <span>{goal.name} (by {new Date(goal.targetDate).toLocaleDateString()})</span>
+                          <span>{formatMoney(goal.remaining)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Opening balance of {formatMoney(forecast.opening)} is all recorded income less expenses to the end of this quarter.
+              {forecast.seasonal
+                ? ' Each quarter is projected from the same quarter in the last two years.'
+                : ' There is less than a year of history, so every past quarter is averaged.'}
+              {' '}Savings goals count for what is still left to save, at today's rate.
+            </p>
+            {forecast.unconverted > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {forecast.unconverted} record(s) or goal(s) have no rate into {currency} and are left out.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ForecastReport;
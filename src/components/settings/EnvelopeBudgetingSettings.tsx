@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Mail } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const EnvelopeBudgetingSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [savedSince, setSavedSince] = useState<string | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [since, setSince] = useState(new Date().toISOString().split('T')[0]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchSettings();
+    }
+  }, [user]);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('envelope_budgeting_since')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const current = data?.envelope_budgeting_since || null;
+      setSavedSince(current);
+      setEnabled(!!current);
+      if (current) setSince(current);
+    } catch (error) {
+      console.error('Error fetching budgeting mode:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const value = enabled ? since : null;
+      const { error } = await supabase
+        .from('profiles')
+        .update({ envelope_budgeting_since: value })
+        .eq('user_id', user?.id);
+
+      if (error) throw error;
+
+      setSavedSince(value);
+      toast({
+        title: "Success",
+        description: enabled ? "Envelope budgeting turned on" : "Envelope budgeting turned off",
+      });
+    } catch (error) {
+      console.error('Error updating budgeting mode:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update budgeting mode",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unchanged = enabled ? savedSince === since : savedSince === null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Mail className="mr-2 h-5 w-5" />
+          Envelope Budgeting
+        </CardTitle>
+        <CardDescription>
+          Give every unit of income a job: assign each income record across expense categories and savings goals until nothing is left unassigned.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : (
+          <>
+            <div className="flex items-center space-x-2">
+              <Switch id="envelope-enabled" checked={enabled} onCheckedChange={setEnabled} />
+              <Label htmlFor="envelope-enabled">Use envelope budgeting</Label>
+            </div>
+
+            {enabled && (
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="envelope-since">Start counting from</Label>
+                <Input
+                  id="envelope-since"
+                  type="date"
+                  value={since}
+                  onChange={(e) => setSince(e.target.value)}
+                  required
+                />
+                <p className="text-sm text-muted-foreground">
+                  Income, expenses and savings deposits dated before this are left out of the envelopes.
+                </p>
+              </div>
+            )}
+
+            <Button onClick={handleSave} disabled={saving || unchanged || (enabled && !since)}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnvelopeBudgetingSettings;
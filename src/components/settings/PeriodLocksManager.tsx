@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePeriodLocks } from '@/hooks/usePeriodLocks';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Lock, LockOpen } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Quarter } from '@/lib/currency';
+import { fiscalQuarterLabel, resolvePeriod } from '@/lib/periods';
+import { PeriodLock, activeLocks, findActiveLock } from '@/lib/periodLocks';
+
+interface PeriodLocksManagerProps {
+  startMonth: number;
+  years: number[];
+}
+
+const PeriodLocksManager = ({ startMonth, years }: PeriodLocksManagerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { locks, loading, refetch } = usePeriodLocks(startMonth);
+  const [quarter, setQuarter] = useState<Quarter>('Q1');
+  // Defaults to the newest fiscal year until one is chosen
+  const [year, setYear] = useState<number | null>(null);
+  const [reopening, setReopening] = useState<PeriodLock | null>(null);
+  const [reason, setReason] = useState('');
+
+  const selectedYear = year ?? years[0];
+
+  const quarterRange = (lock: { quarter: Quarter; year: number }) => {
+    const period = resolvePeriod(
+      { kind: 'quarter', year: lock.year, index: parseInt(lock.quarter.slice(1)), customStart: '', customEnd: '' },
+      startMonth
+    );
+    return `${new Date(period.start).toLocaleDateString()} – ${new Date(period.end).toLocaleDateString()}`;
+  };
+
+  const handleLock = async () => {
+    try {
+      const { error } = await supabase
+        .from('period_locks')
+        .insert([{ user_id: user?.id, quarter, year: selectedYear }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${fiscalQuarterLabel({ quarter, year: selectedYear })} locked successfully`,
+      });
+      refetch();
+    } catch (error) {
+      console.error('Error locking period:', error);
+      toast({
+        title: "Error",
+        // 23505: only one active lock per quarter
+        description: (error as { code?: string })?.code === '23505'
+          ? `${fiscalQuarterLabel({ quarter, year: selectedYear })} is already locked`
+          : "Failed to lock period",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReopen = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reopening || !reason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please give a reason for reopening this period",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('period_locks')
+        .update({ reopened_at: new Date().toISOString(), reopen_reason: reason.trim() })
+        .eq('id', reopening.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${fiscalQuarterLabel(reopening)} reopened successfully`,
+      });
+      setReopening(null);
+      setReason('');
+      refetch();
+    } catch (error) {
+      console.error('Error reopening period:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reopen period",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const active = activeLocks(locks);
+  const history = locks.filter((lock) => lock.reopened_at);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Lock className="mr-2 h-5 w-5" />
+          Period Close
+        </CardTitle>
+        <CardDescription>
+          Lock reconciled quarters so their income, expenses and savings transactions can't be changed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center space-x-2">
+          <Select value={quarter} onValueChange={(value: Quarter) => setQuarter(value)}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="Q1">Q1</SelectItem>
+              <SelectItem value="Q2">Q2</SelectItem>
+              <SelectItem value="Q3">Q3</SelectItem>
+              <SelectItem value="Q4">Q4</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={selectedYear.toString()} onValueChange={(value) => setYear(parseInt(value))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((option) => (
+                <SelectItem key={option} value={option.toString()}>FY{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleLock} disabled={Boolean(findActiveLock(locks, quarter, selectedYear))}>
+            <Lock className="mr-2 h-4 w-4" />
+            Lock Period
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-center py-4">Loading...</p>
+        ) : active.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No locked periods.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {active.map((lock) => (
+              <div key={lock.id} className="flex items-center justify-between p-3 border rounded">
+                <div>
+                  <p className="font-medium">{fiscalQuarterLabel(lock)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {quarterRange(lock)} • Locked {new Date(lock.locked_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setReopening(lock)}>
+                  <LockOpen className="mr-2 h-4 w-4" />
+                  Reopen
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Reopened</h3>
+            {history.map((lock) => (
+              <div key={lock.id} className="p-3 border rounded text-sm">
+                <p className="font-medium">{fiscalQuarterLabel(lock)}</p>
+                <p className="text-muted-foreground">
+                  Locked {new Date(lock.locked_at).toLocaleDateString()}, reopened {new Date(lock.reopened_at).toLocaleDateString()}: {lock.reopen_reason}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={Boolean(reopening)} onOpenChange={(open) => !open && setReopening(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reopen {reopening && fiscalQuarterLabel(reopening)}</DialogTitle>
+              <DialogDescription>
+                Records in this quarter become editable again. The reason is kept with the period's history.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleReopen} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reopen-reason">Reason *</Label>
+                <Textarea
+                  id="reopen-reason"
+                  placeholder="e.g., Late salary payment needs recording"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setReopening(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Reopen Period</Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PeriodLocksManager;
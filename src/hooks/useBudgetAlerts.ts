@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { supabase } from '@/integrations/supabase/client';
+import { toAmount } from '@/lib/money';
+import { fetchAllPages } from '@/lib/pagination';
+import {
+  BUDGET_COLUMNS,
+  Budget,
+  BudgetAlert,
+  RaisedBudgetAlert,
+  budgetCovers,
+  budgetPeriod,
+  budgetVariances,
+  crossedThresholds,
+} from '@/lib/budgets';
+
+export const useBudgetAlerts = (startMonth: number) => {
+  const { user } = useAuth();
+  const { rates, loading: ratesLoading } = useCurrencyRates();
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('budget_alerts')
+        .select(`
+          id,
+          budget_id,
+          threshold,
+          spent,
+          percent_used,
+          triggered_at,
+          read_at,
+          budgets (
+            period_type,
+            year,
+            period_index,
+            currency,
+            expense_categories (
+              name
+            )
+          )
+        `)
+        .eq('user_id', user.id)
+        .order('triggered_at', { ascending: false });
+
+      if (error) throw error;
+      setAlerts(data || []);
+    } catch (error) {
+      console.error('Error fetching budget alerts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  /**
+   * Checks the category's budgets covering `date` against their thresholds,
+   * rollovers included, after an expense is saved, and records any newly
+   * reached. Returns the new alerts so the caller can show them.
+   */
+  const evaluate = useCallback(async (categoryId: string, date: string, expenseId?: string) => {
+    const { data: budgetData, error: budgetError } = await supabase
+      .from('budgets')
+      .select(BUDGET_COLUMNS)
+      .eq('user_id', user?.id)
+      .eq('category_id', categoryId);
+
+    if (budgetError) throw budgetError;
+
+    const covering = ((budgetData || []) as Budget[])
+      .filter((budget) => budgetCovers(budgetPeriod(budget, startMonth), date));
+    if (covering.length === 0) return [];
+
+    // Earlier budgets may carry into the covering ones
+    const coveringEnd = covering.reduce((max, budget) => {
+      const periodEnd = budgetPeriod(budget, startMonth).end;
+      return periodEnd > max ? periodEnd : max;
+    }, date);
+    const chain = ((budgetData || []) as Budget[])
+      .filter((budget) => budgetPeriod(budget, startMonth).end <= coveringEnd);
+    const chainStart = chain.reduce((min, budget) => {
+      const periodStart = budgetPeriod(budget, startMonth).start;
+      return periodStart < min ? periodStart : min;
+    }, date);
+    const expenseData = await fetchAllPages((from, to) => supabase
+      .from('expense_records')
+      .select('id, category_id, amount, currency, expense_date')
+      .eq('user_id', user?.id)
+      .eq('category_id', categoryId)
+      .gte('expense_date', chainStart)
+      .lte('expense_date', coveringEnd)
+      .order('expense_date')
+      .order('id')
+      .range(from, to));
+
+    const variances = budgetVariances(chain, expenseData, rates, startMonth)
+      .filter((variance) => budgetCovers(variance.period, date));
+
+    const { data: existingData, error: existingError } = await supabase
+      .from('budget_alerts')
+      .select('budget_id, threshold')
+      .in('budget_id', variances.map((variance) => variance.budget.id));
+
+    if (existingError) throw existingError;
+
+    const existing = new Set((existingData || []).map((alert) => `${alert.budget_id}:${alert.threshold}`));
+    const raised: RaisedBudgetAlert[] = variances.flatMap((variance) => crossedThresholds(variance)
+      .filter((threshold) => !existing.has(`${variance.budget.id}:${threshold}`))
+      .map((threshold) => ({ variance, threshold })));
+    if (raised.length === 0) return [];
+
+    // Another tab may have raised the same alert meanwhile; the unique key keeps one
+    const { error } = await supabase
+      .from('budget_alerts')
+      .upsert(raised.map(({ variance, threshold }) => ({
+        user_id: user?.id,
+        budget_id: variance.budget.id,
+        threshold,
+        spent: toAmount(variance.spent),
+        percent_used: Math.round(variance.percentUsed * 10000) / 100,
+        expense_id: expenseId || null,
+      })), { onConflict: 'budget_id,threshold', ignoreDuplicates: true });
+
+    if (error) throw error;
+    fetchAlerts();
+    return raised;
+  }, [user, rates, startMonth, fetchAlerts]);
+
+  // A budget's limit or thresholds changed, so its earlier alerts no longer apply
+  const clearForBudget = useCallback(async (budgetId: string) => {
+    const { error } = await supabase
+      .from('budget_alerts')
+      .delete()
+      .eq('budget_id', budgetId);
+
+    if (error) throw error;
+    setAlerts((current) => current.filter((alert) => alert.budget_id !== budgetId));
+  }, []);
+
+  const markRead = useCallback(async (ids: string[]) => {
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('budget_alerts')
+      .update({ read_at: readAt })
+      .in('id', ids);
+
+    if (error) throw error;
+    setAlerts((current) => current.map((alert) => (ids.includes(alert.id) ? { ...alert, read_at: readAt } : alert)));
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    const { error } = await supabase
+      .from('budget_alerts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setAlerts((current) => current.filter((alert) => alert.id !== id));
+  }, []);
+
+  const unreadCount = alerts.filter((alert) => !alert.read_at).length;
+
+  // evaluate converts with the loaded rates, so callers acting on their own should wait for them
+  return { alerts, unreadCount, loading, ratesLoading, evaluate, clearForBudget, markRead, remove, refetch: fetchAlerts };
+};
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BUDGET_COLUMNS,
+  Budget,
+  BudgetExpense,
+  BudgetPeriodType,
+  RolloverPolicy,
+  budgetPeriod,
+  budgetVariances,
+} from '@/lib/budgets';
+import { fiscalYearOf } from '@/lib/periods';
+import { fetchAllPages } from '@/lib/pagination';
+
+/**
+ * Budgets whose month or quarter lies inside `start`..`end`, with their spend
+ * so far. Earlier budgets are loaded too so rollovers can be carried forward;
+ * `history` holds all of them.
+ */
+export const useBudgets = (start: string, end: string, startMonth: number) => {
+  const { user } = useAuth();
+  const { rates } = useCurrencyRates();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [expenses, setExpenses] = useState<BudgetExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchBudgets = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data: budgetData, error: budgetError } = await supabase
+        .from('budgets')
+        .select(BUDGET_COLUMNS)
+        .eq('user_id', user.id)
+        .lte('year', fiscalYearOf(parseISO(end), startMonth));
+
+      if (budgetError) throw budgetError;
+
+      const loaded = (budgetData || [])
+        .map((budget) => ({
+          ...budget,
+          period_type: budget.period_type as BudgetPeriodType,
+          rollover_policy: budget.rollover_policy as RolloverPolicy,
+        }))
+        .filter((budget) => budgetPeriod(budget, startMonth).end <= end);
+      const earliest = loaded.reduce(
+        (min, budget) => {
+          const periodStart = budgetPeriod(budget, startMonth).start;
+          return periodStart < min ? periodStart : min;
+        },
+        start
+      );
+
+      // Rollover chains can reach back years, well past a single page of rows
+      const expenseData = await fetchAllPages((from, to) => supabase
+        .from('expense_records')
+        .select('category_id, amount, currency, expense_date')
+        .eq('user_id', user.id)
+        .gte('expense_date', earliest)
+        .lte('expense_date', end)
+        .order('expense_date')
+        .order('id')
+        .range(from, to));
+
+      setBudgets(loaded);
+      setExpenses(expenseData);
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, start, end, startMonth]);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  const history = useMemo(
+    () => budgetVariances(budgets, expenses, rates, startMonth),
+    [budgets, expenses, rates, startMonth]
+  );
+
+  const variances = useMemo(
+    () => history
+      .filter((variance) => variance.period.start >= start)
+      .sort((a, b) => a.period.start.localeCompare(b.period.start)
+        || a.budget.expense_categories.name.localeCompare(b.budget.expense_categories.name)),
+    [history, start]
+  );
+
+  return { variances, history, expenses, loading, refetch: fetchBudgets };
+};
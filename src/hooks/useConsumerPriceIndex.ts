@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { CpiSeries, buildCpiSeries } from '@/lib/inflation';
+
+export const useConsumerPriceIndex = () => {
+  const [series, setSeries] = useState<CpiSeries>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const fetchSeries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('consumer_price_index')
+        .select('currency, month, index_value')
+        .order('month', { ascending: true });
+
+      if (error) throw error;
+      setSeries(buildCpiSeries(data || []));
+    } catch (error) {
+      console.error('Error fetching consumer price index:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSeries();
+  }, [fetchSeries]);
+
+  return { series, loading, refetch: fetchSeries };
+};
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { CurrencyRate, RateHistory, buildRateHistory } from '@/lib/currency';
+import { fetchAllPages } from '@/lib/pagination';
+
+export const useCurrencyRates = () => {
+  const [rates, setRates] = useState<RateHistory>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const fetchRates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchAllPages((from, to) => supabase
+        .from('currency_rates')
+        .select('from_currency, to_currency, rate, date')
+        .order('date', { ascending: true })
+        .order('from_currency')
+        .order('to_currency')
+        .range(from, to));
+
+      setRates(buildRateHistory(data as CurrencyRate[]));
+    } catch (error) {
+      console.error('Error fetching currency rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  return { rates, loading, refetch: fetchRates };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_DASHBOARD_PREFERENCES,
+  DashboardPreferences,
+  DefaultPeriodKind,
+  parseWidgets,
+} from '@/lib/dashboardLayout';
+
+export const useDashboardPreferences = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<DashboardPreferences>(DEFAULT_DASHBOARD_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPreferences = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('dashboard_preferences')
+        .select('widgets, default_period_kind, default_currency')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      // Users who never customized get the default layout
+      setPreferences(data
+        ? {
+          widgets: parseWidgets(data.widgets),
+          defaultPeriodKind: data.default_period_kind as DefaultPeriodKind,
+          defaultCurrency: data.default_currency,
+        }
+        : DEFAULT_DASHBOARD_PREFERENCES);
+    } catch (error) {
+      console.error('Error fetching dashboard preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const savePreferences = useCallback(async (next: DashboardPreferences) => {
+    const { error } = await supabase
+      .from('dashboard_preferences')
+      .upsert([{
+        user_id: user?.id,
+        widgets: next.widgets.map(({ id, size }) => ({ id, size: Math.round(size * 10) / 10 })),
+        default_period_kind: next.defaultPeriodKind,
+        default_currency: next.defaultCurrency,
+      }], { onConflict: 'user_id' });
+
+    if (error) throw error;
+    setPreferences(next);
+  }, [user]);
+
+  return { preferences, loading, savePreferences, refetch: fetchPreferences };
+};
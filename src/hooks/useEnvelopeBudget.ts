@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { supabase } from '@/integrations/supabase/client';
+import { Currency } from '@/lib/currency';
+import {
+  Envelope,
+  EnvelopeAllocation,
+  EnvelopeIncome,
+  EnvelopeSpend,
+  EnvelopeTransfer,
+  envelopeKey,
+  summarizeEnvelopes,
+} from '@/lib/envelopes';
+
+/**
+ * Envelope budgeting from the profile's start date: each envelope's balance
+ * and the income still unassigned, in `target`. `since` is null while the
+ * mode is off, and nothing else is loaded then.
+ */
+export const useEnvelopeBudget = (target: Currency) => {
+  const { user } = useAuth();
+  const { rates } = useCurrencyRates();
+  const [since, setSince] = useState<string | null>(null);
+  const [envelopes, setEnvelopes] = useState<Envelope[]>([]);
+  const [incomes, setIncomes] = useState<EnvelopeIncome[]>([]);
+  const [allocations, setAllocations] = useState<EnvelopeAllocation[]>([]);
+  const [transfers, setTransfers] = useState<EnvelopeTransfer[]>([]);
+  const [spending, setSpending] = useState<EnvelopeSpend[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEnvelopes = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('envelope_budgeting_since')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+
+      const start = profile?.envelope_budgeting_since || null;
+      setSince(start);
+      if (!start) return;
+
+      const { data: categoryData, error: categoryError } = await supabase
+        .from('expense_categories')
+        .select('id, name')
+        .order('name');
+
+      if (categoryError) throw categoryError;
+
+      const { data: goalData, error: goalError } = await supabase
+        .from('savings_goals')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .order('name');
+
+      if (goalError) throw goalError;
+
+      const { data: incomeData, error: incomeError } = await supabase
+        .from('income_records')
+        .select('id, source, amount, currency, income_date')
+        .eq('user_id', user.id)
+        .gte('income_date', start)
+        .order('income_date', { ascending: false });
+
+      if (incomeError) throw incomeError;
+
+      const { data: allocationData, error: allocationError } = await supabase
+        .from('envelope_allocations')
+        .select('id, income_record_id, category_id, savings_goal_id, amount')
+        .eq('user_id', user.id);
+
+      if (allocationError) throw allocationError;
+
+      const { data: transferData, error: transferError } = await supabase
+        .from('envelope_transfers')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('transfer_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (transferError) throw transferError;
+
+      const { data: expenseData, error: expenseError } = await supabase
+        .from('expense_records')
+        .select('category_id, amount, currency, expense_date')
+        .eq('user_id', user.id)
+        .gte('expense_date', start);
+
+      if (expenseError) throw expenseError;
+
+      const goalIds = (goalData || []).map((goal) => goal.id);
+      const { data: depositData, error: depositError } = await supabase
+        .from('savings_transactions')
+        .select('savings_goal_id, amount, transaction_date, savings_goals (currency)')
+        .in('savings_goal_id', goalIds)
+        .eq('transaction_type', 'deposit')
+        .gte('transaction_date', start);
+
+      if (depositError) throw depositError;
+
+      setEnvelopes([
+        ...(categoryData || []).map((category) => ({
+          key: envelopeKey('category', category.id),
+          kind: 'category' as const,
+          id: category.id,
+          name: category.name,
+        })),
+        ...(goalData || []).map((goal) => ({
+          key: envelopeKey('goal', goal.id),
+          kind: 'goal' as const,
+          id: goal.id,
+          name: goal.name,
+        })),
+      ]);
+      setIncomes(incomeData || []);
+      setAllocations(allocationData || []);
+      setTransfers(transferData || []);
+      setSpending([
+        ...(expenseData || []).map((expense) => ({
+          key: envelopeKey('category', expense.category_id),
+          amount: expense.amount,
+          currency: expense.currency,
+          date: expense.expense_date,
+        })),
+        ...(depositData || []).map((deposit) => ({
+          key: envelopeKey('goal', deposit.savings_goal_id),
+          amount: deposit.amount,
+          currency: deposit.savings_goals.currency,
+          date: deposit.transaction_date,
+        })),
+      ]);
+    } catch (error) {
+      console.error('Error fetching envelopes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchEnvelopes();
+  }, [fetchEnvelopes]);
+
+  const summary = useMemo(
+    () => summarizeEnvelopes(envelopes, incomes, allocations, transfers, spending, target, rates),
+    [envelopes, incomes, allocations, transfers, spending, target, rates]
+  );
+
+  return { since, envelopes, incomes, allocations, transfers, summary, loading, refetch: fetchEnvelopes };
+};
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_FISCAL_YEAR_START, yearOptions } from '@/lib/periods';
+
+// The user's fiscal year start and the fiscal years that have income or expense records
+export const useFiscalYear = () => {
+  const { user } = useAuth();
+  const [startMonth, setStartMonth] = useState(DEFAULT_FISCAL_YEAR_START);
+  const [recordYears, setRecordYears] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchFiscalYear = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('fiscal_year_start_month')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+
+      // Distinct fiscal years, as stored on records by the set_record_period trigger
+      const { data: years, error: yearsError } = await supabase.rpc('record_years');
+
+      if (yearsError) throw yearsError;
+
+      setStartMonth(profile?.fiscal_year_start_month || DEFAULT_FISCAL_YEAR_START);
+      setRecordYears(years || []);
+    } catch (error) {
+      console.error('Error fetching fiscal year settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchFiscalYear();
+  }, [fetchFiscalYear]);
+
+  return { startMonth, years: yearOptions(recordYears, startMonth), loading, refetch: fetchFiscalYear };
+};
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { PeriodLock, isDateLocked } from '@/lib/periodLocks';
+
+export const usePeriodLocks = (startMonth: number) => {
+  const { user } = useAuth();
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLocks = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('period_locks')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('locked_at', { ascending: false });
+
+      if (error) throw error;
+      setLocks(data || []);
+    } catch (error) {
+      console.error('Error fetching period locks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchLocks();
+  }, [fetchLocks]);
+
+  const isLocked = useCallback(
+    (date: string) => isDateLocked(locks, date, startMonth),
+    [locks, startMonth]
+  );
+
+  return { locks, isLocked, loading, refetch: fetchLocks };
+};
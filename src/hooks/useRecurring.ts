@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useBudgetAlerts } from '@/hooks/useBudgetAlerts';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { raisedAlertsMessage } from '@/lib/budgets';
+import { quarterOf } from '@/lib/periods';
+import {
+  OccurrenceStatus,
+  RECURRING_TEMPLATE_COLUMNS,
+  RecurringOccurrence,
+  RecurringTemplate,
+  occurrenceAmount,
+  occurrenceDates,
+} from '@/lib/recurring';
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+/**
+ * The user's recurring templates and their occurrences. Loading also
+ * generates any occurrences that have fallen due, and records those of
+ * templates set to create them automatically.
+ */
+export const useRecurring = (startMonth: number) => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+  const [occurrences, setOccurrences] = useState<RecurringOccurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { evaluate: evaluateBudgetAlerts, ratesLoading } = useBudgetAlerts(startMonth);
+
+  // Runs after the expense is saved, so a failure here only loses the alert
+  const checkBudgetAlerts = async (categoryId: string, date: string, expenseId: string) => {
+    try {
+      const raised = await evaluateBudgetAlerts(categoryId, date, expenseId);
+      if (raised.length > 0) {
+        toast({
+          title: "Budget Alert",
+          description: raisedAlertsMessage(raised),
+          variant: raised.some(({ threshold }) => threshold >= 100) ? "destructive" : "default",
+        });
+      }
+    } catch (error) {
+      console.error('Error checking budget alerts:', error);
+    }
+  };
+  // Read through a ref so later rate updates don't re-run generation
+  const checkBudgetAlertsRef = useRef(checkBudgetAlerts);
+  checkBudgetAlertsRef.current = checkBudgetAlerts;
+
+  /**
+   * Turns a pending occurrence into an income or expense record. The
+   * occurrence is claimed first, so two tabs confirming it at once can't
+   * record it twice; it goes back to pending if the record can't be saved.
+   */
+  const record = useCallback(async (occurrence: RecurringOccurrence, template: RecurringTemplate, amount?: number) => {
+    const value = amount ?? occurrenceAmount(occurrence, template);
+    const { data: claimed, error: claimError } = await supabase
+      .from('recurring_occurrences')
+      // The amount is kept so history doesn't follow later changes to the template
+      .update({ status: 'confirmed', amount: value })
+      .eq('id', occurrence.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) return false;
+
+    let expenseId: string | null = null;
+    try {
+      // quarter/year are also derived by a database trigger; sent so the row is complete as typed
+      const period = quarterOf(occurrence.occurrence_date, startMonth);
+      if (template.kind === 'income') {
+        const { data, error } = await supabase
+          .from('income_records')
+          .insert([{
+            user_id: user?.id,
+            ...period,
+            income_date: occurrence.occurrence_date,
+            amount: value,
+            currency: template.currency,
+            source: template.source || '',
+            description: template.description || '',
+          }])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+
+        const { error: linkError } = await supabase
+          .from('recurring_occurrences')
+          .update({ income_record_id: data.id })
+          .eq('id', occurrence.id);
+
+        if (linkError) throw linkError;
+      } else {
+        const { data, error } = await supabase
+          .from('expense_records')
+          .insert([{
+            user_id: user?.id,
+            category_id: template.category_id,
+            ...period,
+            expense_date: occurrence.occurrence_date,
+            amount: value,
+            currency: template.currency,
+            description: template.description || '',
+          }])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+
+        const { error: linkError } = await supabase
+          .from('recurring_occurrences')
+          .update({ expense_record_id: data.id })
+          .eq('id', occurrence.id);
+
+        if (linkError) throw linkError;
+        expenseId = data.id;
+      }
+    } catch (error) {
+      await supabase
+        .from('recurring_occurrences')
+        .update({ status: 'pending', amount: occurrence.amount })
+        .eq('id', occurrence.id);
+      throw error;
+    }
+
+    if (expenseId && template.category_id) {
+      await checkBudgetAlertsRef.current(template.category_id, occurrence.occurrence_date, expenseId);
+    }
+    return true;
+  }, [user, startMonth]);
+
+  const fetchRecurring = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data: templateData, error: templateError } = await supabase
+        .from('recurring_templates')
+        .select(RECURRING_TEMPLATE_COLUMNS)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (templateError) throw templateError;
+
+      const loadedTemplates = (templateData || []) as RecurringTemplate[];
+      const { data: occurrenceData, error: occurrenceError } = await supabase
+        .from('recurring_occurrences')
+        .select('id, template_id, occurrence_date, status, amount, income_record_id, expense_record_id')
+        .eq('user_id', user.id)
+        .order('occurrence_date');
+
+      if (occurrenceError) throw occurrenceError;
+
+      let loadedOccurrences = (occurrenceData || []) as RecurringOccurrence[];
+
+      // Occurrences already generated, skipped ones included, are never generated again
+      const known = new Set(loadedOccurrences.map((occurrence) => `${occurrence.template_id}:${occurrence.occurrence_date}`));
+      const due = loadedTemplates
+        .filter((template) => template.is_active)
+        .flatMap((template) => occurrenceDates(template, todayIso())
+          .filter((date) => !known.has(`${template.id}:${date}`))
+          .map((date) => ({ user_id: user.id, template_id: template.id, occurrence_date: date })));
+
+      if (due.length > 0) {
+        // Another tab may generate the same dates meanwhile; the unique key keeps one
+        const { error } = await supabase
+          .from('recurring_occurrences')
+          .upsert(due, { onConflict: 'template_id,occurrence_date', ignoreDuplicates: true });
+
+        if (error) throw error;
+
+        const { data: refreshed, error: refreshError } = await supabase
+          .from('recurring_occurrences')
+          .select('id, template_id, occurrence_date, status, amount, income_record_id, expense_record_id')
+          .eq('user_id', user.id)
+          .order('occurrence_date');
+
+        if (refreshError) throw refreshError;
+        loadedOccurrences = (refreshed || []) as RecurringOccurrence[];
+      }
+
+      const byId = new Map(loadedTemplates.map((template) => [template.id, template]));
+      const recorded = new Set<string>();
+      for (const occurrence of loadedOccurrences) {
+        const template = byId.get(occurrence.template_id);
+        if (occurrence.status !== 'pending' || !template?.auto_create) continue;
+        try {
+          if (await record(occurrence, template)) recorded.add(occurrence.id);
+        } catch (error) {
+          // e.g. a locked period; the occurrence stays pending for the user to resolve
+          console.error('Error recording recurring occurrence:', error);
+        }
+      }
+
+      setTemplates(loadedTemplates);
+      setOccurrences(loadedOccurrences.map((occurrence) => (
+        recorded.has(occurrence.id) ? { ...occurrence, status: 'confirmed' as const } : occurrence
+      )));
+    } catch (error) {
+      console.error('Error fetching recurring templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, record]);
+
+  // Loading records automatic occurrences, whose budget alerts need the exchange rates
+  useEffect(() => {
+    if (!ratesLoading) fetchRecurring();
+  }, [fetchRecurring, ratesLoading]);
+
+  const confirm = useCallback(async (occurrence: RecurringOccurrence, amount?: number) => {
+    const template = templates.find((candidate) => candidate.id === occurrence.template_id);
+    if (!template) return false;
+    const recorded = await record(occurrence, template, amount);
+    fetchRecurring();
+    return recorded;
+  }, [templates, record, fetchRecurring]);
+
+  const setStatus = useCallback(async (id: string, status: OccurrenceStatus) => {
+    const { error } = await supabase
+      .from('recurring_occurrences')
+      .update({ status })
+      .eq('id', id)
+      .neq('status', 'confirmed');
+
+    if (error) throw error;
+    setOccurrences((current) => current.map((occurrence) => (occurrence.id === id ? { ...occurrence, status } : occurrence)));
+  }, []);
+
+  const skip = useCallback((id: string) => setStatus(id, 'skipped'), [setStatus]);
+  const restore = useCallback((id: string) => setStatus(id, 'pending'), [setStatus]);
+
+  const pending = occurrences.filter((occurrence) => occurrence.status === 'pending');
+
+  return { templates, occurrences, pending, loading, confirm, skip, restore, refetch: fetchRecurring };
+};
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, subMonths } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { supabase } from '@/integrations/supabase/client';
+import { CategoryExpense } from '@/lib/categories';
+import { SpendingFlag, SpendingFlagDismissal, detectSpendingFlags } from '@/lib/spendingFlags';
+
+// Expenses this recent are reviewed; the year before them only feeds the averages
+const REVIEW_MONTHS = 6;
+const HISTORY_MONTHS = 12;
+
+export const useSpendingFlags = (startMonth: number) => {
+  const { user } = useAuth();
+  const { rates } = useCurrencyRates();
+  const [expenses, setExpenses] = useState<CategoryExpense[]>([]);
+  const [dismissals, setDismissals] = useState<SpendingFlagDismissal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const since = format(subMonths(new Date(), REVIEW_MONTHS), 'yyyy-MM-dd');
+
+  const fetchFlagData = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data: expenseData, error: expenseError } = await supabase
+        .from('expense_records')
+        .select(`
+          id,
+          category_id,
+          amount,
+          currency,
+          expense_date,
+          description,
+          expense_categories (
+            name
+          )
+        `)
+        .eq('user_id', user.id)
+        .gte('expense_date', format(subMonths(new Date(), REVIEW_MONTHS + HISTORY_MONTHS), 'yyyy-MM-dd'));
+
+      if (expenseError) throw expenseError;
+
+      const { data: dismissalData, error: dismissalError } = await supabase
+        .from('spending_flag_dismissals')
+        .select('id, flag_key, dismissed_at')
+        .eq('user_id', user.id);
+
+      if (dismissalError) throw dismissalError;
+
+      setExpenses(expenseData || []);
+      setDismissals(dismissalData || []);
+    } catch (error) {
+      console.error('Error fetching spending flags:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchFlagData();
+  }, [fetchFlagData]);
+
+  const flags = useMemo(() => {
+    const dismissed = new Set(dismissals.map((dismissal) => dismissal.flag_key));
+    return detectSpendingFlags(expenses, since, rates, startMonth).filter((flag) => !dismissed.has(flag.key));
+  }, [expenses, dismissals, since, rates, startMonth]);
+
+  const flagsForExpense = useCallback(
+    (expenseId: string) => flags.filter((flag) => flag.expenseId === expenseId),
+    [flags]
+  );
+
+  const dismiss = useCallback(async (flag: SpendingFlag) => {
+    const { data, error } = await supabase
+      .from('spending_flag_dismissals')
+      .insert([{ user_id: user?.id, flag_key: flag.key }])
+      .select('id, flag_key, dismissed_at')
+      .single();
+
+    if (error) throw error;
+    setDismissals((current) => [...current, data]);
+  }, [user]);
+
+  return { flags, flagsForExpense, dismiss, loading, refetch: fetchFlagData };
+};
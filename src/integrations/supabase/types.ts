@@ -14,6 +14,197 @@ export type Database = {
   }
   public: {
     Tables: {
+      budget_alerts: {
+        Row: {
+          budget_id: string
+          expense_id: string | null
+          id: string
+          percent_used: number
+          read_at: string | null
+          spent: number
+          threshold: number
+          triggered_at: string
+          user_id: string
+        }
+        Insert: {
+          budget_id: string
+          expense_id?: string | null
+          id?: string
+          percent_used: number
+          read_at?: string | null
+          spent: number
+          threshold: number
+          triggered_at?: string
+          user_id: string
+        }
+        Update: {
+          budget_id?: string
+          expense_id?: string | null
+          id?: string
+          percent_used?: number
+          read_at?: string | null
+          spent?: number
+          threshold?: number
+          triggered_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_alerts_budget_id_fkey"
+            columns: ["budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_alerts_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expense_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      budgets: {
+        Row: {
+          alert_thresholds: number[]
+          amount: number
+          category_id: string
+          created_at: string
+          currency: Database["public"]["Enums"]["currency_type"]
+          id: string
+          notes: string | null
+          period_index: number
+          period_type: string
+          rollover_cap: number | null
+          rollover_policy: string
+          updated_at: string
+          user_id: string
+          year: number
+        }
+        Insert: {
+          alert_thresholds?: number[]
+          amount: number
+          category_id: string
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          id?: string
+          notes?: string | null
+          period_index: number
+          period_type: string
+          rollover_cap?: number | null
+          rollover_policy?: string
+          updated_at?: string
+          user_id: string
+          year: number
+        }
+        Update: {
+          alert_thresholds?: number[]
+          amount?: number
+          category_id?: string
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          id?: string
+          notes?: string | null
+          period_index?: number
+          period_type?: string
+          rollover_cap?: number | null
+          rollover_policy?: string
+          updated_at?: string
+          user_id?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      consumer_price_index: {
+        Row: {
+          created_at: string
+          currency: Database["public"]["Enums"]["currency_type"]
+          id: string
+          index_value: number
+          month: string
+          source: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          id?: string
+          index_value: number
+          month: string
+          source?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          id?: string
+          index_value?: number
+          month?: string
+          source?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      currency_exchanges: {
+        Row: {
+          created_at: string
+          description: string | null
+          effective_rate: number
+          exchange_date: string
+          fee_amount: number
+          fee_currency: Database["public"]["Enums"]["currency_type"] | null
+          from_amount: number
+          from_currency: Database["public"]["Enums"]["currency_type"]
+          id: string
+          provider: string | null
+          to_amount: number
+          to_currency: Database["public"]["Enums"]["currency_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          effective_rate?: never
+          exchange_date?: string
+          fee_amount?: number
+          fee_currency?: Database["public"]["Enums"]["currency_type"] | null
+          from_amount: number
+          from_currency: Database["public"]["Enums"]["currency_type"]
+          id?: string
+          provider?: string | null
+          to_amount: number
+          to_currency: Database["public"]["Enums"]["currency_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          effective_rate?: never
+          exchange_date?: string
+          fee_amount?: number
+          fee_currency?: Database["public"]["Enums"]["currency_type"] | null
+          from_amount?: number
+          from_currency?: Database["public"]["Enums"]["currency_type"]
+          id?: string
+          provider?: string | null
+          to_amount?: number
+          to_currency?: Database["public"]["Enums"]["currency_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       currency_rates: {
         Row: {
           created_at: string
@@ -41,6 +232,162 @@ export type Database = {
         }
         Relationships: []
       }
+      dashboard_preferences: {
+        Row: {
+          created_at: string
+          default_currency: Database["public"]["Enums"]["currency_type"]
+          default_period_kind: string
+          id: string
+          updated_at: string
+          user_id: string
+          widgets: Json
+        }
+        Insert: {
+          created_at?: string
+          default_currency?: Database["public"]["Enums"]["currency_type"]
+          default_period_kind?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+          widgets?: Json
+        }
+        Update: {
+          created_at?: string
+          default_currency?: Database["public"]["Enums"]["currency_type"]
+          default_period_kind?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+          widgets?: Json
+        }
+        Relationships: []
+      }
+      envelope_allocations: {
+        Row: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          id: string
+          income_record_id: string
+          savings_goal_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          income_record_id: string
+          savings_goal_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          income_record_id?: string
+          savings_goal_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "envelope_allocations_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "envelope_allocations_income_record_id_fkey"
+            columns: ["income_record_id"]
+            isOneToOne: false
+            referencedRelation: "income_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "envelope_allocations_savings_goal_id_fkey"
+            columns: ["savings_goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      envelope_transfers: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: Database["public"]["Enums"]["currency_type"]
+          from_category_id: string | null
+          from_savings_goal_id: string | null
+          id: string
+          reason: string
+          to_category_id: string | null
+          to_savings_goal_id: string | null
+          transfer_date: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          from_category_id?: string | null
+          from_savings_goal_id?: string | null
+          id?: string
+          reason: string
+          to_category_id?: string | null
+          to_savings_goal_id?: string | null
+          transfer_date?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          from_category_id?: string | null
+          from_savings_goal_id?: string | null
+          id?: string
+          reason?: string
+          to_category_id?: string | null
+          to_savings_goal_id?: string | null
+          transfer_date?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "envelope_transfers_from_category_id_fkey"
+            columns: ["from_category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "envelope_transfers_from_savings_goal_id_fkey"
+            columns: ["from_savings_goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "envelope_transfers_to_category_id_fkey"
+            columns: ["to_category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "envelope_transfers_to_savings_goal_id_fkey"
+            columns: ["to_savings_goal_id"]
+            isOneToOne: false
+            referencedRelation: "savings_goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       expense_categories: {
         Row: {
           created_at: string
@@ -119,6 +466,7 @@ export type Database = {
           currency: Database["public"]["Enums"]["currency_type"]
           description: string | null
           id: string
+          income_date: string
           quarter: Database["public"]["Enums"]["quarter_period"]
           source: string | null
           updated_at: string
@@ -131,6 +479,7 @@ export type Database = {
           currency?: Database["public"]["Enums"]["currency_type"]
           description?: string | null
           id?: string
+          income_date?: string
           quarter: Database["public"]["Enums"]["quarter_period"]
           source?: string | null
           updated_at?: string
@@ -143,6 +492,7 @@ export type Database = {
           currency?: Database["public"]["Enums"]["currency_type"]
           description?: string | null
           id?: string
+          income_date?: string
           quarter?: Database["public"]["Enums"]["quarter_period"]
           source?: string | null
           updated_at?: string
@@ -151,9 +501,118 @@ export type Database = {
         }
         Relationships: []
       }
+      net_worth_items: {
+        Row: {
+          created_at: string
+          currency: Database["public"]["Enums"]["currency_type"]
+          description: string | null
+          id: string
+          is_active: boolean
+          item_type: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          item_type: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          item_type?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      net_worth_valuations: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          note: string | null
+          valuation_date: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          note?: string | null
+          valuation_date?: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          note?: string | null
+          valuation_date?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "net_worth_valuations_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "net_worth_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      period_locks: {
+        Row: {
+          created_at: string
+          id: string
+          locked_at: string
+          quarter: Database["public"]["Enums"]["quarter_period"]
+          reopen_reason: string | null
+          reopened_at: string | null
+          updated_at: string
+          user_id: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          locked_at?: string
+          quarter: Database["public"]["Enums"]["quarter_period"]
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          updated_at?: string
+          user_id: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          locked_at?: string
+          quarter?: Database["public"]["Enums"]["quarter_period"]
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          updated_at?: string
+          user_id?: string
+          year?: number
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
+          envelope_budgeting_since: string | null
+          fiscal_year_start_month: number
           full_name: string
           id: string
           role: string
@@ -162,6 +621,8 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          envelope_budgeting_since?: string | null
+          fiscal_year_start_month?: number
           full_name: string
           id?: string
           role?: string
@@ -170,6 +631,8 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          envelope_budgeting_since?: string | null
+          fiscal_year_start_month?: number
           full_name?: string
           id?: string
           role?: string
@@ -178,6 +641,132 @@ export type Database = {
         }
         Relationships: []
       }
+      recurring_occurrences: {
+        Row: {
+          amount: number | null
+          created_at: string
+          expense_record_id: string | null
+          id: string
+          income_record_id: string | null
+          occurrence_date: string
+          status: string
+          template_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          expense_record_id?: string | null
+          id?: string
+          income_record_id?: string | null
+          occurrence_date: string
+          status?: string
+          template_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          expense_record_id?: string | null
+          id?: string
+          income_record_id?: string | null
+          occurrence_date?: string
+          status?: string
+          template_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_occurrences_expense_record_id_fkey"
+            columns: ["expense_record_id"]
+            isOneToOne: false
+            referencedRelation: "expense_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_income_record_id_fkey"
+            columns: ["income_record_id"]
+            isOneToOne: false
+            referencedRelation: "income_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_occurrences_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_templates: {
+        Row: {
+          amount: number
+          auto_create: boolean
+          category_id: string | null
+          created_at: string
+          currency: Database["public"]["Enums"]["currency_type"]
+          day_of_month: number | null
+          description: string | null
+          end_date: string | null
+          frequency: string
+          id: string
+          is_active: boolean
+          kind: string
+          source: string | null
+          start_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          auto_create?: boolean
+          category_id?: string | null
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          day_of_month?: number | null
+          description?: string | null
+          end_date?: string | null
+          frequency: string
+          id?: string
+          is_active?: boolean
+          kind: string
+          source?: string | null
+          start_date: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          auto_create?: boolean
+          category_id?: string | null
+          created_at?: string
+          currency?: Database["public"]["Enums"]["currency_type"]
+          day_of_month?: number | null
+          description?: string | null
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          source?: string | null
+          start_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_templates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       savings_goals: {
         Row: {
           created_at: string
@@ -261,15 +850,47 @@ export type Database = {
           },
         ]
       }
+      spending_flag_dismissals: {
+        Row: {
+          dismissed_at: string
+          flag_key: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          dismissed_at?: string
+          flag_key: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          dismissed_at?: string
+          flag_key?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      fiscal_period: {
+        Args: { record_date: string; start_month: number }
+        Returns: Record<string, unknown>
+      }
+      is_period_locked: {
+        Args: { owner_id: string; record_date: string }
+        Returns: boolean
+      }
+      record_years: {
+        Args: Record<PropertyKey, never>
+        Returns: number[]
+      }
     }
     Enums: {
-      currency_type: "USD" | "GHS"
+      currency_type: "USD" | "GHS" | "EUR" | "GBP" | "NGN" | "XOF"
       quarter_period: "Q1" | "Q2" | "Q3" | "Q4"
     }
     CompositeTypes: {
@@ -398,7 +1019,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      currency_type: ["USD", "GHS"],
+      currency_type: ["USD", "GHS", "EUR", "GBP", "NGN", "XOF"],
       quarter_period: ["Q1", "Q2", "Q3", "Q4"],
     },
   },
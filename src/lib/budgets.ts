@@ -0,0 +1,396 @@
+import { format } from 'date-fns';
+import { Currency, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, money, ratio, subtract, zero } from '@/lib/money';
+import { DEFAULT_FISCAL_YEAR_START, ReportPeriod, resolvePeriod } from '@/lib/periods';
+
+// SQLSTATE raised by refresh_record_periods: budgets pin the fiscal year start
+export const FISCAL_YEAR_BUDGETS_ERROR = 'BU001';
+
+export const isFiscalYearBudgetsError = (error: unknown) =>
+  (error as { code?: string })?.code === FISCAL_YEAR_BUDGETS_ERROR;
+
+export type BudgetPeriodType = 'month' | 'quarter';
+
+export const BUDGET_PERIOD_TYPES: { value: BudgetPeriodType; label: string }[] = [
+  { value: 'month', label: 'Monthly' },
+  { value: 'quarter', label: 'Quarterly' },
+];
+
+export type BudgetStatus = 'under' | 'near' | 'over';
+
+export const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  under: 'On budget',
+  near: 'Nearly spent',
+  over: 'Over budget',
+};
+
+export type RolloverPolicy = 'reset' | 'carry_surplus' | 'carry_deficit' | 'carry_both' | 'capped';
+
+export const ROLLOVER_POLICIES: { value: RolloverPolicy; label: string; description: string }[] = [
+  { value: 'reset', label: 'Reset', description: 'Each period starts from its own budget' },
+  { value: 'carry_surplus', label: 'Carry surplus', description: 'Unspent money is added to the next period' },
+  { value: 'carry_deficit', label: 'Carry deficit', description: 'Overspending is taken from the next period' },
+  { value: 'carry_both', label: 'Carry both', description: 'Surplus and overspending both roll into the next period' },
+  { value: 'capped', label: 'Capped carry', description: 'Surplus and overspending roll over, up to a limit' },
+];
+
+export const rolloverPolicyLabel = (policy: RolloverPolicy) =>
+  ROLLOVER_POLICIES.find((option) => option.value === policy)?.label || policy;
+
+// Share of a budget spent at which it counts as nearly spent
+export const BUDGET_WARNING_SHARE = 0.8;
+
+// Percentages of a budget at which an alert is raised, unless the budget sets its own
+export const DEFAULT_ALERT_THRESHOLDS = [75, 90, 100];
+// Mirrors the CHECK on budgets.alert_thresholds
+export const MAX_ALERT_THRESHOLD = 1000;
+
+export interface Budget {
+  id: string;
+  category_id: string;
+  period_type: BudgetPeriodType;
+  year: number;
+  period_index: number;
+  amount: number;
+  currency: Currency;
+  notes: string | null;
+  alert_thresholds: number[];
+  rollover_policy: RolloverPolicy;
+  rollover_cap: number | null;
+  expense_categories: {
+    name: string;
+  };
+}
+
+// Columns selected wherever budgets are loaded, to fill a Budget
+export const BUDGET_COLUMNS = `
+  id,
+  category_id,
+  period_type,
+  year,
+  period_index,
+  amount,
+  currency,
+  notes,
+  alert_thresholds,
+  rollover_policy,
+  rollover_cap,
+  expense_categories (
+    name
+  )
+`;
+
+export interface BudgetAlert {
+  id: string;
+  budget_id: string;
+  threshold: number;
+  spent: number;
+  percent_used: number;
+  triggered_at: string;
+  read_at: string | null;
+  budgets: {
+    period_type: string;
+    year: number;
+    period_index: number;
+    currency: Currency;
+    expense_categories: {
+      name: string;
+    };
+  };
+}
+
+export interface BudgetExpense {
+  // Absent for an expense that hasn't been saved yet
+  id?: string;
+  category_id: string;
+  amount: number;
+  currency: Currency;
+  expense_date: string;
+}
+
+export interface BudgetVariance {
+  budget: Budget;
+  period: ReportPeriod;
+  // In the budget's currency. `planned` is the effective budget: the amount
+  // set plus whatever the previous period carried in
+  base: Money;
+  carriedIn: Money;
+  planned: Money;
+  spent: Money;
+  // Negative once the budget is overspent
+  remaining: Money;
+  percentUsed: number;
+  status: BudgetStatus;
+  // What this period hands to the next one under the budget's rollover policy
+  carriedOut: Money;
+  // Expenses left out of `spent`, or a carry left out, for lack of a rate
+  unconverted: number;
+}
+
+export interface RaisedBudgetAlert {
+  variance: BudgetVariance;
+  threshold: number;
+}
+
+export interface BudgetRollup {
+  planned: Money;
+  spent: Money;
+  remaining: Money;
+  overCount: number;
+  nearCount: number;
+  // Budgets or expenses left out of the totals for lack of a rate
+  unconverted: number;
+}
+
+export const budgetPeriod = (
+  budget: Pick<Budget, 'period_type' | 'year' | 'period_index'>,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START
+) => resolvePeriod({
+  kind: budget.period_type,
+  year: budget.year,
+  index: budget.period_index,
+  customStart: '',
+  customEnd: '',
+}, startMonth);
+
+export const budgetCovers = (period: ReportPeriod, date: string) =>
+  date >= period.start && date <= period.end;
+
+// The same category's budget for the period just before, as a lookup key
+const budgetKey = (budget: Pick<Budget, 'category_id' | 'period_type' | 'year' | 'period_index'>) =>
+  `${budget.category_id}:${budget.period_type}:${budget.year}:${budget.period_index}`;
+
+const previousBudgetKey = (budget: Budget) => {
+  const periodsPerYear = budget.period_type === 'month' ? 12 : 4;
+  return budget.period_index > 1
+    ? budgetKey({ ...budget, period_index: budget.period_index - 1 })
+    : budgetKey({ ...budget, year: budget.year - 1, period_index: periodsPerYear });
+};
+
+// The part of `remaining` a budget passes on, in its own currency
+export const carryForward = (
+  policy: RolloverPolicy,
+  remaining: Money,
+  cap: number | null
+): Money => {
+  const limit = money(cap ?? 0, remaining.currency).minor;
+  switch (policy) {
+    case 'carry_surplus':
+      return { ...remaining, minor: Math.max(remaining.minor, 0) };
+    case 'carry_deficit':
+      return { ...remaining, minor: Math.min(remaining.minor, 0) };
+    case 'carry_both':
+      return remaining;
+    case 'capped':
+      return { ...remaining, minor: Math.min(Math.max(remaining.minor, -limit), limit) };
+    default:
+      return zero(remaining.currency);
+  }
+};
+
+export const budgetStatus = (percentUsed: number): BudgetStatus => {
+  if (percentUsed > 1) return 'over';
+  if (percentUsed >= BUDGET_WARNING_SHARE) return 'near';
+  return 'under';
+};
+
+// The category's spend inside `period`, each expense converted at its own date
+const spentIn = (
+  categoryId: string,
+  period: ReportPeriod,
+  expenses: BudgetExpense[],
+  target: Currency,
+  rates: RateHistory
+) => {
+  let spent = zero(target);
+  let unconverted = 0;
+  expenses
+    .filter((expense) => expense.category_id === categoryId && budgetCovers(period, expense.expense_date))
+    .forEach((expense) => {
+      const converted = convertMoney(money(expense.amount, expense.currency), target, expense.expense_date, rates);
+      if (converted) {
+        spent = add(spent, converted.money);
+      } else {
+        unconverted += 1;
+      }
+    });
+  return { spent, unconverted };
+};
+
+export const budgetVariance = (
+  budget: Budget,
+  expenses: BudgetExpense[],
+  rates: RateHistory,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START,
+  carriedIn: Money = zero(budget.currency)
+): BudgetVariance => {
+  const period = budgetPeriod(budget, startMonth);
+  const base = money(budget.amount, budget.currency);
+  // A carried deficit can use up the budget but not take it below zero
+  const planned = add(base, { ...carriedIn, minor: Math.max(carriedIn.minor, -base.minor) });
+  const { spent, unconverted } = spentIn(budget.category_id, period, expenses, budget.currency, rates);
+  const remaining = subtract(planned, spent);
+  // Nothing left to plan with counts as fully used, and any spend as over
+  const percentUsed = planned.minor > 0 ? ratio(spent, planned) : 1 + ratio(spent, base);
+  return {
+    budget,
+    period,
+    base,
+    carriedIn,
+    planned,
+    spent,
+    remaining,
+    percentUsed,
+    status: budgetStatus(percentUsed),
+    carriedOut: carryForward(budget.rollover_policy, remaining, budget.rollover_cap),
+    unconverted,
+  };
+};
+
+/**
+ * Variances for `budgets` with rollovers applied. Each budget receives what
+ * the same category's budget for the period just before carried out,
+ * converted at the end of that period; a period without a budget breaks the
+ * chain. `expenses` must reach back to the earliest budget for the carries to
+ * be complete.
+ */
+export const budgetVariances = (
+  budgets: Budget[],
+  expenses: BudgetExpense[],
+  rates: RateHistory,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START
+): BudgetVariance[] => {
+  const byKey = new Map<string, BudgetVariance>();
+  return budgets
+    .map((budget) => ({ budget, period: budgetPeriod(budget, startMonth) }))
+    .sort((a, b) => a.period.start.localeCompare(b.period.start))
+    .map(({ budget }) => {
+      const previous = byKey.get(previousBudgetKey(budget));
+      let carriedIn = zero(budget.currency);
+      let carryUnconverted = 0;
+      if (previous && previous.carriedOut.minor !== 0) {
+        const converted = convertMoney(previous.carriedOut, budget.currency, previous.period.end, rates);
+        if (converted) {
+          carriedIn = converted.money;
+        } else {
+          carryUnconverted = 1;
+        }
+      }
+      const variance = budgetVariance(budget, expenses, rates, startMonth, carriedIn);
+      variance.unconverted += carryUnconverted;
+      byKey.set(budgetKey(budget), variance);
+      return variance;
+    });
+};
+
+// The periods whose carries built up `budget`'s, oldest first and ending with it
+export const rolloverHistory = (budget: Budget, variances: BudgetVariance[]) => {
+  const byKey = new Map(variances.map((variance) => [budgetKey(variance.budget), variance]));
+  let current = byKey.get(budgetKey(budget));
+  if (!current) return [];
+  const chain = [current];
+  while (current.carriedIn.minor !== 0) {
+    const previous = byKey.get(previousBudgetKey(current.budget));
+    if (!previous) break;
+    chain.unshift(previous);
+    current = previous;
+  }
+  return chain;
+};
+
+/**
+ * Totals budgets in one currency. Planned amounts are converted at the end of
+ * their period, or today while it is still running, and spend is converted
+ * per expense as everywhere else.
+ */
+export const rollupBudgets = (
+  variances: BudgetVariance[],
+  expenses: BudgetExpense[],
+  target: Currency,
+  rates: RateHistory,
+  today: Date = new Date()
+): BudgetRollup => {
+  const todayIso = format(today, 'yyyy-MM-dd');
+  let planned = zero(target);
+  let spent = zero(target);
+  let unconverted = 0;
+
+  variances.forEach(({ budget, period, planned: budgetPlanned }) => {
+    const converted = convertMoney(budgetPlanned, target, period.end < todayIso ? period.end : todayIso, rates);
+    if (!converted) {
+      unconverted += 1;
+      return;
+    }
+    const spend = spentIn(budget.category_id, period, expenses, target, rates);
+    planned = add(planned, converted.money);
+    spent = add(spent, spend.spent);
+    unconverted += spend.unconverted;
+  });
+
+  return {
+    planned,
+    spent,
+    remaining: subtract(planned, spent),
+    overCount: variances.filter((variance) => variance.status === 'over').length,
+    nearCount: variances.filter((variance) => variance.status === 'near').length,
+    unconverted,
+  };
+};
+
+// "75, 90, 100" as sorted whole percentages; null when any entry isn't one
+export const parseAlertThresholds = (value: string): number[] | null => {
+  const entries = value.split(',').map((entry) => entry.trim().replace(/%$/, '')).filter(Boolean);
+  const thresholds = entries.map(Number);
+  if (thresholds.some((threshold) => !Number.isInteger(threshold) || threshold < 1 || threshold > MAX_ALERT_THRESHOLD)) {
+    return null;
+  }
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+};
+
+export const formatAlertThresholds = (thresholds: number[]) => thresholds.join(', ');
+
+// Thresholds the budget's spend has reached, compared in minor units to avoid float drift
+export const crossedThresholds = (variance: BudgetVariance) =>
+  variance.budget.alert_thresholds.filter((threshold) => (variance.planned.minor > 0
+    ? variance.spent.minor * 100 >= variance.planned.minor * threshold
+    : variance.percentUsed * 100 >= threshold));
+
+/**
+ * Budgets covering `expense` as they would stand once it is saved, rollovers
+ * included. An expense with an id replaces the stored one, so editing doesn't
+ * count it twice.
+ */
+export const projectExpense = (
+  budgets: Budget[],
+  expenses: BudgetExpense[],
+  expense: BudgetExpense,
+  rates: RateHistory,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START
+): BudgetVariance[] => {
+  const others = expenses.filter((existing) => !expense.id || existing.id !== expense.id);
+  return budgetVariances(
+    budgets.filter((budget) => budget.category_id === expense.category_id),
+    [...others, expense],
+    rates,
+    startMonth
+  ).filter((variance) => budgetCovers(variance.period, expense.expense_date));
+};
+
+export const alertMessage = (categoryName: string, periodLabel: string, threshold: number) =>
+  threshold > 100
+    ? `${categoryName} is ${threshold - 100}% over its ${periodLabel} budget`
+    : threshold === 100
+      ? `${categoryName} has used all of its ${periodLabel} budget`
+      : `${categoryName} has used ${threshold}% of its ${periodLabel} budget`;
+
+// One sentence per budget, for its highest newly reached threshold
+export const raisedAlertsMessage = (raised: RaisedBudgetAlert[]) => {
+  const highest = new Map<string, RaisedBudgetAlert>();
+  raised.forEach((alert) => {
+    const current = highest.get(alert.variance.budget.id);
+    if (!current || alert.threshold > current.threshold) highest.set(alert.variance.budget.id, alert);
+  });
+  return Array.from(highest.values())
+    .map(({ variance, threshold }) => `${alertMessage(variance.budget.expense_categories.name, variance.period.label, threshold)}.`)
+    .join(' ');
+};
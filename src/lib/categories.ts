@@ -0,0 +1,102 @@
+import { Currency, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, money, ratio, subtract, sum, zero } from '@/lib/money';
+import { RealTerms, inRealTerms } from '@/lib/inflation';
+
+export interface CategoryExpense {
+  id: string;
+  category_id: string;
+  amount: number;
+  currency: Currency;
+  expense_date: string;
+  description: string | null;
+  expense_categories: {
+    name: string;
+  };
+}
+
+export interface CategorySpend {
+  categoryId: string;
+  name: string;
+  total: Money;
+  // Fraction of all converted spend in the period
+  share: number;
+  previous: Money;
+  change: Money;
+  // null when nothing was spent in the category in the previous period
+  changePercent: number | null;
+  count: number;
+}
+
+export interface CategorySummary {
+  categories: CategorySpend[];
+  total: Money;
+  previousTotal: Money;
+  // Expenses left out for lack of a rate
+  unconverted: number;
+  // Expenses outside the price index, left in nominal terms
+  undeflated: number;
+}
+
+// An expense in `target`, restated in real terms when asked; null without a rate
+export const expenseValue = (expense: CategoryExpense, target: Currency, rates: RateHistory, realTerms?: RealTerms) => {
+  const converted = convertMoney(money(expense.amount, expense.currency), target, expense.expense_date, rates);
+  return converted ? inRealTerms(converted.money, expense.expense_date, realTerms) : null;
+};
+
+const totalsByCategory = (expenses: CategoryExpense[], target: Currency, rates: RateHistory, realTerms?: RealTerms) => {
+  const totals = new Map<string, { name: string; total: Money; count: number }>();
+  let unconverted = 0;
+  let undeflated = 0;
+  expenses.forEach((expense) => {
+    const value = expenseValue(expense, target, rates, realTerms);
+    if (!value) {
+      unconverted += 1;
+      return;
+    }
+    if (value.nominal) undeflated += 1;
+    const row = totals.get(expense.category_id) || { name: expense.expense_categories.name, total: zero(target), count: 0 };
+    row.total = add(row.total, value.money);
+    row.count += 1;
+    totals.set(expense.category_id, row);
+  });
+  return { totals, unconverted, undeflated };
+};
+
+// Spend per category in `target`, largest first, compared with the previous period's expenses
+export const summarizeCategories = (
+  current: CategoryExpense[],
+  previous: CategoryExpense[],
+  target: Currency,
+  rates: RateHistory,
+  realTerms?: RealTerms
+): CategorySummary => {
+  const now = totalsByCategory(current, target, rates, realTerms);
+  const before = totalsByCategory(previous, target, rates, realTerms);
+
+  const total = sum(Array.from(now.totals.values()).map((row) => row.total), target);
+  const previousTotal = sum(Array.from(before.totals.values()).map((row) => row.total), target);
+
+  // Categories with spend in either period, so drops to zero still show up
+  const ids = new Set([...now.totals.keys(), ...before.totals.keys()]);
+  const categories = Array.from(ids).map((categoryId) => {
+    const row = now.totals.get(categoryId);
+    const prior = before.totals.get(categoryId);
+    const categoryTotal = row?.total || zero(target);
+    const previousCategoryTotal = prior?.total || zero(target);
+    return {
+      categoryId,
+      name: row?.name || prior.name,
+      total: categoryTotal,
+      share: total.minor > 0 ? ratio(categoryTotal, total) : 0,
+      previous: previousCategoryTotal,
+      change: subtract(categoryTotal, previousCategoryTotal),
+      changePercent: previousCategoryTotal.minor > 0
+        ? ratio(subtract(categoryTotal, previousCategoryTotal), previousCategoryTotal)
+        : null,
+      count: row?.count || 0,
+    };
+  });
+
+  categories.sort((a, b) => b.total.minor - a.total.minor || a.name.localeCompare(b.name));
+  return { categories, total, previousTotal, unconverted: now.unconverted, undeflated: now.undeflated + before.undeflated };
+};
@@ -0,0 +1,183 @@
+import { Currency, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, money, ratio, subtract, sum, toAmount, zero } from '@/lib/money';
+import { RealTerms, inRealTerms } from '@/lib/inflation';
+import { DatedAmount } from '@/lib/trends';
+
+// An income or expense record with the source or category it is grouped under
+export interface ComparisonRecord extends DatedAmount {
+  label: string;
+}
+
+export interface ComparisonData {
+  income: ComparisonRecord[];
+  expenses: ComparisonRecord[];
+  // Savings goal transactions, in their goal's currency
+  deposits: DatedAmount[];
+  withdrawals: DatedAmount[];
+}
+
+export interface ComparisonLine {
+  label: string;
+  current: Money;
+  baseline: Money;
+  change: Money;
+  // null when the baseline is zero
+  changePercent: number | null;
+}
+
+export interface ComparisonSection {
+  lines: ComparisonLine[];
+  total: ComparisonLine;
+}
+
+export interface PeriodComparison {
+  currency: Currency;
+  income: ComparisonSection;
+  expenses: ComparisonSection;
+  // Net savings and savings goal movements
+  savings: ComparisonLine[];
+  savingsRate: { current: number | null; baseline: number | null };
+  // Records left out for lack of a rate
+  unconverted: number;
+  // Records converted with a rate dated after them
+  fallbackConversions: number;
+  // Records outside the price index, left in nominal terms
+  undeflated: number;
+}
+
+const compareLine = (label: string, current: Money, baseline: Money): ComparisonLine => ({
+  label,
+  current,
+  baseline,
+  change: subtract(current, baseline),
+  // Measured against the baseline's size, so a smaller deficit reads as an improvement
+  changePercent: baseline.minor !== 0 ? ratio(subtract(current, baseline), baseline) * Math.sign(baseline.minor) : null,
+});
+
+// Converts each record at its own date, then deflates it, as the Dashboard does
+const createConverter = (target: Currency, rates: RateHistory, realTerms?: RealTerms) => {
+  const stats = { unconverted: 0, fallbackConversions: 0, undeflated: 0 };
+  const convert = (record: DatedAmount): Money | null => {
+    const converted = convertMoney(money(record.amount, record.currency), target, record.date, rates);
+    if (!converted) {
+      stats.unconverted += 1;
+      return null;
+    }
+    if (converted.isFallback) stats.fallbackConversions += 1;
+    const value = inRealTerms(converted.money, record.date, realTerms);
+    if (value.nominal) stats.undeflated += 1;
+    return value.money;
+  };
+  return { convert, stats };
+};
+
+const compareSection = (
+  current: ComparisonRecord[],
+  baseline: ComparisonRecord[],
+  target: Currency,
+  convert: (record: DatedAmount) => Money | null
+): ComparisonSection => {
+  const totals = new Map<string, { current: Money; baseline: Money }>();
+  const addRecords = (records: ComparisonRecord[], side: 'current' | 'baseline') => {
+    records.forEach((record) => {
+      const value = convert(record);
+      if (!value) return;
+      const row = totals.get(record.label) || { current: zero(target), baseline: zero(target) };
+      row[side] = add(row[side], value);
+      totals.set(record.label, row);
+    });
+  };
+  addRecords(current, 'current');
+  addRecords(baseline, 'baseline');
+
+  const lines = Array.from(totals.entries())
+    .map(([label, row]) => compareLine(label, row.current, row.baseline))
+    .sort((a, b) => b.current.minor - a.current.minor || b.baseline.minor - a.baseline.minor || a.label.localeCompare(b.label));
+
+  return {
+    lines,
+    total: compareLine(
+      'Total',
+      sum(lines.map((line) => line.current), target),
+      sum(lines.map((line) => line.baseline), target)
+    ),
+  };
+};
+
+const totalOf = (records: DatedAmount[], target: Currency, convert: (record: DatedAmount) => Money | null) =>
+  sum(records.map(convert).filter((value): value is Money => value !== null), target);
+
+export const comparePeriods = (
+  current: ComparisonData,
+  baseline: ComparisonData,
+  target: Currency,
+  rates: RateHistory,
+  realTerms?: RealTerms
+): PeriodComparison => {
+  const { convert, stats } = createConverter(target, rates, realTerms);
+
+  const income = compareSection(current.income, baseline.income, target, convert);
+  const expenses = compareSection(current.expenses, baseline.expenses, target, convert);
+
+  const net = compareLine(
+    'Net savings',
+    subtract(income.total.current, expenses.total.current),
+    subtract(income.total.baseline, expenses.total.baseline)
+  );
+  const savings = [
+    net,
+    compareLine('Goal deposits', totalOf(current.deposits, target, convert), totalOf(baseline.deposits, target, convert)),
+    compareLine('Goal withdrawals', totalOf(current.withdrawals, target, convert), totalOf(baseline.withdrawals, target, convert)),
+  ];
+
+  return {
+    currency: target,
+    income,
+    expenses,
+    savings,
+    savingsRate: {
+      current: income.total.current.minor > 0 ? ratio(net.current, income.total.current) : null,
+      baseline: income.total.baseline.minor > 0 ? ratio(net.baseline, income.total.baseline) : null,
+    },
+    unconverted: stats.unconverted,
+    fallbackConversions: stats.fallbackConversions,
+    undeflated: stats.undeflated,
+  };
+};
+
+const percentCell = (value: number | null) => (value === null ? '' : (value * 100).toFixed(1));
+
+// Rows for a CSV export: one per line, amounts in the comparison currency and, if restated, the base month's prices
+export const comparisonRows = (
+  comparison: PeriodComparison,
+  currentLabel: string,
+  baselineLabel: string,
+  priceMonth?: string
+): string[][] => {
+  const unit = priceMonth ? `${comparison.currency}, ${priceMonth} prices` : comparison.currency;
+  const lineRow = (section: string, line: ComparisonLine) => [
+    section,
+    line.label,
+    toAmount(line.current).toString(),
+    toAmount(line.baseline).toString(),
+    toAmount(line.change).toString(),
+    percentCell(line.changePercent),
+  ];
+
+  return [
+    ['Section', 'Line', `${currentLabel} (${unit})`, `${baselineLabel} (${unit})`, 'Change', 'Change %'],
+    ...comparison.income.lines.map((line) => lineRow('Income', line)),
+    lineRow('Income', comparison.income.total),
+    ...comparison.expenses.lines.map((line) => lineRow('Expenses', line)),
+    lineRow('Expenses', comparison.expenses.total),
+    ...comparison.savings.map((line) => lineRow('Savings', line)),
+    [
+      'Savings',
+      'Savings rate (%)',
+      percentCell(comparison.savingsRate.current),
+      percentCell(comparison.savingsRate.baseline),
+      '',
+      '',
+    ],
+  ];
+};
@@ -0,0 +1,14 @@
+// Quotes fields containing commas, quotes or line breaks (RFC 4180)
+const escapeField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (rows: string[][]) => rows.map((row) => row.map(escapeField).join(',')).join('\r\n');
+
+// Saves the rows as a file through a temporary link
+export const downloadCsv = (filename: string, rows: string[][]) => {
+  const url = URL.createObjectURL(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
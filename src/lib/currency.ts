@@ -0,0 +1,181 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type Currency = Database['public']['Enums']['currency_type'];
+export type Quarter = Database['public']['Enums']['quarter_period'];
+
+export interface CurrencyInfo {
+  code: Currency;
+  symbol: string;
+  // Minor-unit digits shown and stored for amounts in this currency
+  decimals: number;
+  name: string;
+}
+
+export const CURRENCIES: Record<Currency, CurrencyInfo> = {
+  USD: { code: 'USD', symbol: '$', decimals: 2, name: 'US Dollar' },
+  GHS: { code: 'GHS', symbol: '₵', decimals: 2, name: 'Ghanaian Cedi' },
+  EUR: { code: 'EUR', symbol: '€', decimals: 2, name: 'Euro' },
+  GBP: { code: 'GBP', symbol: '£', decimals: 2, name: 'British Pound' },
+  NGN: { code: 'NGN', symbol: '₦', decimals: 2, name: 'Nigerian Naira' },
+  XOF: { code: 'XOF', symbol: 'CFA ', decimals: 0, name: 'West African CFA Franc' },
+};
+
+export const CURRENCY_LIST: CurrencyInfo[] = Object.values(CURRENCIES);
+
+// Cross rates between two non-USD currencies are derived through this currency
+export const PIVOT_CURRENCY: Currency = 'USD';
+
+export const formatCurrency = (amount: number, currency: Currency) => {
+  const { symbol, decimals } = CURRENCIES[currency];
+  const formatted = Math.abs(amount).toLocaleString(undefined, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+  return `${amount < 0 ? '-' : ''}${symbol}${formatted}`;
+};
+
+export interface CurrencyRate {
+  from_currency: Currency;
+  to_currency: Currency;
+  rate: number;
+  date: string;
+}
+
+interface DatedRate {
+  date: string;
+  rate: number;
+}
+
+// Rates per "FROM:TO" pair, sorted by date ascending
+export type RateHistory = Map<string, DatedRate[]>;
+
+/**
+ * What to do when a record is dated before the first known rate for a pair:
+ * - 'next-available': use the earliest rate recorded after the date
+ * - 'none': leave the amount unconverted
+ */
+export type RateFallback = 'next-available' | 'none';
+
+export const DEFAULT_RATE_FALLBACK: RateFallback = 'next-available';
+
+export interface RateLookup {
+  rate: number;
+  rateDate: string;
+  // True when the rate is dated after the record (fallback policy was applied)
+  isFallback: boolean;
+}
+
+const pairKey = (from: Currency, to: Currency) => `${from}:${to}`;
+
+export const buildRateHistory = (rates: CurrencyRate[]): RateHistory => {
+  const history: RateHistory = new Map();
+  rates.forEach((rate) => {
+    const key = pairKey(rate.from_currency, rate.to_currency);
+    const entries = history.get(key) || [];
+    entries.push({ date: rate.date, rate: Number(rate.rate) });
+    history.set(key, entries);
+  });
+  history.forEach((entries) => entries.sort((a, b) => a.date.localeCompare(b.date)));
+  return history;
+};
+
+const findEffectiveRate = (
+  entries: DatedRate[] | undefined,
+  date: string,
+  fallback: RateFallback
+): (DatedRate & { isFallback: boolean }) | null => {
+  if (!entries || entries.length === 0) return null;
+
+  let prior: DatedRate | null = null;
+  for (const entry of entries) {
+    if (entry.date > date) break;
+    prior = entry;
+  }
+
+  if (prior) return { ...prior, isFallback: false };
+  if (fallback === 'next-available') return { ...entries[0], isFallback: true };
+  return null;
+};
+
+const lookupPairRate = (
+  from: Currency,
+  to: Currency,
+  date: string,
+  history: RateHistory,
+  fallback: RateFallback
+): RateLookup | null => {
+  if (from === to) return { rate: 1, rateDate: date, isFallback: false };
+
+  const direct = findEffectiveRate(history.get(pairKey(from, to)), date, fallback);
+  if (direct) return { rate: direct.rate, rateDate: direct.date, isFallback: direct.isFallback };
+
+  const inverse = findEffectiveRate(history.get(pairKey(to, from)), date, fallback);
+  if (inverse) return { rate: 1 / inverse.rate, rateDate: inverse.date, isFallback: inverse.isFallback };
+
+  return null;
+};
+
+/**
+ * Rate effective on `date` (ISO yyyy-mm-dd). Tries the direct pair, then its
+ * inverse, then a cross rate through PIVOT_CURRENCY; a cross rate reports the
+ * older of its two legs' dates.
+ */
+export const lookupRate = (
+  from: Currency,
+  to: Currency,
+  date: string,
+  history: RateHistory,
+  fallback: RateFallback = DEFAULT_RATE_FALLBACK
+): RateLookup | null => {
+  const pair = lookupPairRate(from, to, date, history, fallback);
+  if (pair || from === PIVOT_CURRENCY || to === PIVOT_CURRENCY) return pair;
+
+  const toPivot = lookupPairRate(from, PIVOT_CURRENCY, date, history, fallback);
+  const fromPivot = lookupPairRate(PIVOT_CURRENCY, to, date, history, fallback);
+  if (!toPivot || !fromPivot) return null;
+
+  return {
+    rate: toPivot.rate * fromPivot.rate,
+    rateDate: toPivot.rateDate < fromPivot.rateDate ? toPivot.rateDate : fromPivot.rateDate,
+    isFallback: toPivot.isFallback || fromPivot.isFallback,
+  };
+};
+
+export interface InverseMismatch {
+  from: Currency;
+  to: Currency;
+  date: string;
+  rate: number;
+  inverseRate: number;
+  // How far rate × inverseRate is from 1, as a fraction
+  deviation: number;
+}
+
+// 0.1%: enough to absorb rounding to six decimals, small enough to catch 12.0 vs 0.083
+export const INVERSE_RATE_TOLERANCE = 0.001;
+
+// Pairs recorded in both directions on the same date whose rates don't multiply back to 1
+export const findInverseMismatches = (
+  rates: CurrencyRate[],
+  tolerance = INVERSE_RATE_TOLERANCE
+): InverseMismatch[] => {
+  const byKey = new Map<string, CurrencyRate>();
+  rates.forEach((rate) => byKey.set(`${pairKey(rate.from_currency, rate.to_currency)}:${rate.date}`, rate));
+
+  return rates
+    .filter((rate) => rate.from_currency < rate.to_currency)
+    .flatMap((rate) => {
+      const inverse = byKey.get(`${pairKey(rate.to_currency, rate.from_currency)}:${rate.date}`);
+      if (!inverse) return [];
+      const deviation = Math.abs(Number(rate.rate) * Number(inverse.rate) - 1);
+      if (deviation <= tolerance) return [];
+      return [{
+        from: rate.from_currency,
+        to: rate.to_currency,
+        date: rate.date,
+        rate: Number(rate.rate),
+        inverseRate: Number(inverse.rate),
+        deviation,
+      }];
+    });
+};
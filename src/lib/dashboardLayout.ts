@@ -0,0 +1,116 @@
+import { Currency } from '@/lib/currency';
+import { PeriodKind } from '@/lib/periods';
+
+export type DashboardWidgetId =
+  | 'income'
+  | 'expenses'
+  | 'net-savings'
+  | 'savings-rate'
+  | 'needs-review'
+  | 'trends'
+  | 'category-breakdown'
+  | 'recent-transactions'
+  | 'budgets'
+  | 'unassigned'
+  | 'currency-breakdown'
+  | 'savings-goals';
+
+export interface DashboardWidgetInfo {
+  id: DashboardWidgetId;
+  label: string;
+  // Width as a percentage of the row
+  defaultSize: number;
+}
+
+export const DASHBOARD_WIDGETS: DashboardWidgetInfo[] = [
+  { id: 'income', label: 'Total Income', defaultSize: 25 },
+  { id: 'expenses', label: 'Total Expenses', defaultSize: 25 },
+  { id: 'net-savings', label: 'Net Savings', defaultSize: 25 },
+  { id: 'savings-rate', label: 'Savings Rate', defaultSize: 25 },
+  { id: 'needs-review', label: 'Needs Review', defaultSize: 100 },
+  { id: 'trends', label: 'Trends', defaultSize: 100 },
+  { id: 'category-breakdown', label: 'Spending by Category', defaultSize: 50 },
+  { id: 'recent-transactions', label: 'Recent Transactions', defaultSize: 50 },
+  { id: 'budgets', label: 'Budgets', defaultSize: 67 },
+  { id: 'unassigned', label: 'Unassigned Income', defaultSize: 33 },
+  { id: 'currency-breakdown', label: 'Currency Breakdown', defaultSize: 100 },
+  { id: 'savings-goals', label: 'Savings Goals Progress', defaultSize: 100 },
+];
+
+export const WIDGET_SIZES = [25, 33, 50, 67, 75, 100];
+
+// Narrower than this and a card's figures stop fitting
+export const MIN_WIDGET_SIZE = 15;
+
+export interface DashboardWidget {
+  id: DashboardWidgetId;
+  size: number;
+}
+
+export type DefaultPeriodKind = Exclude<PeriodKind, 'custom'>;
+
+export interface DashboardPreferences {
+  // Visible widgets, in display order
+  widgets: DashboardWidget[];
+  defaultPeriodKind: DefaultPeriodKind;
+  defaultCurrency: Currency;
+}
+
+export const DEFAULT_DASHBOARD_PREFERENCES: DashboardPreferences = {
+  widgets: DASHBOARD_WIDGETS.map(({ id, defaultSize }) => ({ id, size: defaultSize })),
+  defaultPeriodKind: 'quarter',
+  defaultCurrency: 'USD',
+};
+
+export const widgetLabel = (id: DashboardWidgetId) =>
+  DASHBOARD_WIDGETS.find((widget) => widget.id === id)?.label || id;
+
+// Drops widgets this version doesn't know and clamps sizes, so stored layouts stay usable
+export const parseWidgets = (value: unknown): DashboardWidget[] => {
+  if (!Array.isArray(value)) return DEFAULT_DASHBOARD_PREFERENCES.widgets;
+  const known = new Set<string>(DASHBOARD_WIDGETS.map((widget) => widget.id));
+  const widgets: DashboardWidget[] = [];
+  value.forEach((widget) => {
+    if (!widget || !known.has(widget.id) || typeof widget.size !== 'number') return;
+    if (widgets.some((existing) => existing.id === widget.id)) return;
+    widgets.push({ id: widget.id, size: Math.min(Math.max(widget.size, MIN_WIDGET_SIZE), 100) });
+  });
+  return widgets;
+};
+
+/**
+ * Packs widgets into rows in order, starting a new row when the next widget
+ * would overflow 100%. Rows are resizable panel groups, so a row's sizes are
+ * scaled to fill it.
+ */
+export const packRows = (widgets: DashboardWidget[]): DashboardWidget[][] => {
+  const rows: DashboardWidget[][] = [];
+  let row: DashboardWidget[] = [];
+  let used = 0;
+  widgets.forEach((widget) => {
+    // Allow for rounding in sizes reported back by a resized row
+    if (row.length > 0 && used + widget.size > 100.5) {
+      rows.push(row);
+      row = [];
+      used = 0;
+    }
+    row.push(widget);
+    used += widget.size;
+  });
+  if (row.length > 0) rows.push(row);
+  return rows;
+};
+
+export const fillRow = (row: DashboardWidget[]) => {
+  const total = row.reduce((sum, widget) => sum + widget.size, 0);
+  return row.map((widget) => ({ ...widget, size: (widget.size / total) * 100 }));
+};
+
+export const moveWidget = (widgets: DashboardWidget[], id: DashboardWidgetId, offset: -1 | 1) => {
+  const index = widgets.findIndex((widget) => widget.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= widgets.length) return widgets;
+  const next = [...widgets];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
@@ -0,0 +1,165 @@
+import { Currency, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, money, subtract, sumAmounts, zero } from '@/lib/money';
+
+// SQLSTATE raised by the enforce_allocation_limit trigger
+export const ALLOCATION_LIMIT_ERROR = 'EV001';
+
+export const isAllocationLimitError = (error: unknown) =>
+  (error as { code?: string })?.code === ALLOCATION_LIMIT_ERROR;
+
+export type EnvelopeKind = 'category' | 'goal';
+
+// An envelope is an expense category or a savings goal; rows name it by one of the two ids
+export interface EnvelopeTarget {
+  category_id: string | null;
+  savings_goal_id: string | null;
+}
+
+export interface Envelope {
+  key: string;
+  kind: EnvelopeKind;
+  id: string;
+  name: string;
+}
+
+export interface EnvelopeIncome {
+  id: string;
+  source: string;
+  amount: number;
+  currency: Currency;
+  income_date: string;
+}
+
+export interface EnvelopeAllocation extends EnvelopeTarget {
+  id: string;
+  income_record_id: string;
+  // In the income record's currency
+  amount: number;
+}
+
+export interface EnvelopeTransfer {
+  id: string;
+  from_category_id: string | null;
+  from_savings_goal_id: string | null;
+  to_category_id: string | null;
+  to_savings_goal_id: string | null;
+  amount: number;
+  currency: Currency;
+  transfer_date: string;
+  reason: string;
+  created_at: string;
+}
+
+// An expense, or a deposit into a savings goal, drawing down an envelope
+export interface EnvelopeSpend {
+  key: string;
+  amount: number;
+  currency: Currency;
+  date: string;
+}
+
+export interface EnvelopeBalance {
+  envelope: Envelope;
+  allocated: Money;
+  // Net of transfers in and out
+  moved: Money;
+  spent: Money;
+  // Negative when overspent
+  balance: Money;
+}
+
+export interface EnvelopeSummary {
+  balances: EnvelopeBalance[];
+  unassigned: Money;
+  // Records left out of the totals for lack of a rate
+  unconverted: number;
+}
+
+export const envelopeKey = (kind: EnvelopeKind, id: string) => `${kind}:${id}`;
+
+export const targetKey = (target: EnvelopeTarget) =>
+  target.category_id ? envelopeKey('category', target.category_id) : envelopeKey('goal', target.savings_goal_id);
+
+export const keyTarget = (key: string): EnvelopeTarget => {
+  const [kind, id] = key.split(':');
+  return kind === 'category'
+    ? { category_id: id, savings_goal_id: null }
+    : { category_id: null, savings_goal_id: id };
+};
+
+export const transferSource = (transfer: EnvelopeTransfer) =>
+  targetKey({ category_id: transfer.from_category_id, savings_goal_id: transfer.from_savings_goal_id });
+
+export const transferDestination = (transfer: EnvelopeTransfer) =>
+  targetKey({ category_id: transfer.to_category_id, savings_goal_id: transfer.to_savings_goal_id });
+
+// What is left of an income record to assign, in its own currency
+export const unassignedFor = (income: EnvelopeIncome, allocations: EnvelopeAllocation[]) =>
+  subtract(
+    money(income.amount, income.currency),
+    sumAmounts(allocations.filter((allocation) => allocation.income_record_id === income.id).map((allocation) => allocation.amount), income.currency)
+  );
+
+/**
+ * Envelope balances and unassigned income in `target`. Allocations and
+ * unassigned amounts are converted at their income record's date, transfers
+ * at their own date and spending at the expense or deposit date.
+ */
+export const summarizeEnvelopes = (
+  envelopes: Envelope[],
+  incomes: EnvelopeIncome[],
+  allocations: EnvelopeAllocation[],
+  transfers: EnvelopeTransfer[],
+  spending: EnvelopeSpend[],
+  target: Currency,
+  rates: RateHistory
+): EnvelopeSummary => {
+  let unconverted = 0;
+  const convert = (value: Money, date: string) => {
+    const converted = convertMoney(value, target, date, rates);
+    if (!converted) unconverted += 1;
+    return converted?.money || zero(target);
+  };
+
+  const rows = new Map<string, EnvelopeBalance>(envelopes.map((envelope) => [envelope.key, {
+    envelope,
+    allocated: zero(target),
+    moved: zero(target),
+    spent: zero(target),
+    balance: zero(target),
+  }]));
+
+  const incomeById = new Map(incomes.map((income) => [income.id, income]));
+  allocations.forEach((allocation) => {
+    const income = incomeById.get(allocation.income_record_id);
+    const row = rows.get(targetKey(allocation));
+    if (!income || !row) return;
+    row.allocated = add(row.allocated, convert(money(allocation.amount, income.currency), income.income_date));
+  });
+
+  transfers.forEach((transfer) => {
+    const value = convert(money(transfer.amount, transfer.currency), transfer.transfer_date);
+    const from = rows.get(transferSource(transfer));
+    const to = rows.get(transferDestination(transfer));
+    if (from) from.moved = subtract(from.moved, value);
+    if (to) to.moved = add(to.moved, value);
+  });
+
+  spending.forEach((spend) => {
+    const row = rows.get(spend.key);
+    if (!row) return;
+    row.spent = add(row.spent, convert(money(spend.amount, spend.currency), spend.date));
+  });
+
+  const balances = Array.from(rows.values()).map((row) => ({
+    ...row,
+    balance: subtract(add(row.allocated, row.moved), row.spent),
+  }));
+
+  const unassigned = incomes.reduce(
+    (total, income) => add(total, convert(unassignedFor(income, allocations), income.income_date)),
+    zero(target)
+  );
+
+  return { balances, unassigned, unconverted };
+};
@@ -0,0 +1,71 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { RateHistory, lookupRate } from '@/lib/currency';
+import { Money, convertMoney, money, multiplyByRate, negate, subtract } from '@/lib/money';
+
+export type CurrencyExchange = Tables<'currency_exchanges'>;
+
+export interface ExchangeAnalysis {
+  effectiveRate: number;
+  // Market mid rate on the exchange date, null when no rate is recorded
+  midRate: number | null;
+  rateDate: string | null;
+  // What from_amount was worth at the mid rate, in to_currency
+  expected: Money | null;
+  // Fees converted into to_currency
+  fees: Money | null;
+  // to_amount - expected - fees: negative when the exchange cost money
+  realized: Money | null;
+  // Fraction of the mid rate given up to the provider's rate
+  spread: number | null;
+}
+
+export const feeCurrency = (exchange: CurrencyExchange) => exchange.fee_currency || exchange.from_currency;
+
+export const analyzeExchange = (exchange: CurrencyExchange, rates: RateHistory): ExchangeAnalysis => {
+  const from = money(exchange.from_amount, exchange.from_currency);
+  const received = money(exchange.to_amount, exchange.to_currency);
+  const effectiveRate = Number(exchange.to_amount) / Number(exchange.from_amount);
+
+  const mid = lookupRate(exchange.from_currency, exchange.to_currency, exchange.exchange_date, rates);
+  const fees = convertMoney(
+    money(exchange.fee_amount, feeCurrency(exchange)),
+    exchange.to_currency,
+    exchange.exchange_date,
+    rates
+  );
+
+  if (!mid || !fees) {
+    return {
+      effectiveRate,
+      midRate: mid?.rate ?? null,
+      rateDate: mid?.rateDate ?? null,
+      expected: null,
+      fees: fees?.money ?? null,
+      realized: null,
+      spread: null,
+    };
+  }
+
+  const expected = multiplyByRate(from, mid.rate, exchange.to_currency);
+  return {
+    effectiveRate,
+    midRate: mid.rate,
+    rateDate: mid.rateDate,
+    expected,
+    fees: fees.money,
+    realized: subtract(subtract(received, expected), fees.money),
+    spread: (mid.rate - effectiveRate) / mid.rate,
+  };
+};
+
+// Signed per-currency balance movements: the sold amount and fees go out, the bought amount comes in
+export const exchangeFlows = (exchange: CurrencyExchange): Money[] => {
+  const flows: Money[] = [
+    negate(money(exchange.from_amount, exchange.from_currency)),
+    money(exchange.to_amount, exchange.to_currency),
+  ];
+  if (Number(exchange.fee_amount) > 0) {
+    flows.push(negate(money(exchange.fee_amount, feeCurrency(exchange))));
+  }
+  return flows;
+};
@@ -0,0 +1,232 @@
+import { addDays, addMonths, format, parseISO } from 'date-fns';
+import { Currency, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, money, multiplyByRate, subtract, sum, zero } from '@/lib/money';
+import { ComparisonRecord } from '@/lib/comparison';
+import { quarterOf } from '@/lib/periods';
+import { TrendBucket, trendBuckets } from '@/lib/trends';
+
+// Past fiscal quarters the seasonal averages are drawn from
+export const FORECAST_HISTORY_QUARTERS = 8;
+
+export interface ForecastGoal {
+  name: string;
+  currency: Currency;
+  target_amount: number;
+  current_amount: number;
+  target_date: string;
+}
+
+export interface ForecastLine {
+  label: string;
+  expected: Money;
+}
+
+export interface ForecastGoalItem {
+  name: string;
+  targetDate: string;
+  // Still to be saved, in the forecast currency
+  remaining: Money;
+}
+
+export interface ForecastPeriod extends TrendBucket {
+  income: Money;
+  incomeLow: Money;
+  incomeHigh: Money;
+  expenses: Money;
+  expensesLow: Money;
+  expensesHigh: Money;
+  incomeBySource: ForecastLine[];
+  expensesByCategory: ForecastLine[];
+  goals: ForecastGoalItem[];
+  goalTotal: Money;
+  // Income less expenses and goal top-ups due in the quarter
+  net: Money;
+  closing: Money;
+  closingLow: Money;
+  closingHigh: Money;
+}
+
+export interface ForecastHistoryPoint extends TrendBucket {
+  income: Money;
+  expenses: Money;
+}
+
+export interface Forecast {
+  currency: Currency;
+  // Every recorded income less expenses up to the end of the current quarter
+  opening: Money;
+  history: ForecastHistoryPoint[];
+  periods: ForecastPeriod[];
+  // Whether averages could be matched by fiscal quarter, or fell back to all history
+  seasonal: boolean;
+  // Records and goals left out for lack of a rate
+  unconverted: number;
+}
+
+const toIsoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const average = (values: Money[], currency: Currency) =>
+  values.length === 0 ? zero(currency) : multiplyByRate(sum(values, currency), 1 / values.length, currency);
+
+const minimum = (values: Money[], currency: Currency) =>
+  values.length === 0 ? zero(currency) : values.reduce((a, b) => (b.minor < a.minor ? b : a));
+
+const maximum = (values: Money[], currency: Currency) =>
+  values.length === 0 ? zero(currency) : values.reduce((a, b) => (b.minor > a.minor ? b : a));
+
+// Converted totals per label for each history quarter
+const totalsByQuarter = (
+  records: ComparisonRecord[],
+  buckets: TrendBucket[],
+  convert: (record: ComparisonRecord) => Money | null
+) => {
+  const totals = buckets.map(() => new Map<string, Money>());
+  records.forEach((record) => {
+    const index = buckets.findIndex((bucket) => record.date >= bucket.start && record.date <= bucket.end);
+    if (index === -1) return;
+    const value = convert(record);
+    if (!value) return;
+    const current = totals[index].get(record.label);
+    totals[index].set(record.label, current ? add(current, value) : value);
+  });
+  return totals;
+};
+
+const projectQuarter = (totals: Map<string, Money>[], target: Currency) => {
+  const labels = new Set(totals.flatMap((quarter) => Array.from(quarter.keys())));
+  const lines = Array.from(labels)
+    .map((label) => ({
+      label,
+      // Quarters without the label count as zero, so occasional items are spread out
+      expected: average(totals.map((quarter) => quarter.get(label) || zero(target)), target),
+    }))
+    .filter((line) => line.expected.minor !== 0)
+    .sort((a, b) => b.expected.minor - a.expected.minor || a.label.localeCompare(b.label));
+
+  const quarterTotals = totals.map((quarter) => sum(Array.from(quarter.values()), target));
+  return {
+    lines,
+    expected: sum(lines.map((line) => line.expected), target),
+    low: minimum(quarterTotals, target),
+    high: maximum(quarterTotals, target),
+  };
+};
+
+/**
+ * Projects the `count` fiscal quarters after the one containing `today`.
+ * Each source and category is expected at its average for the same fiscal
+ * quarter over the last two years, ignoring quarters before the first
+ * record; the band spans the lowest and highest of those quarters' totals.
+ * Active goals due in a quarter are treated as outflows for what is left
+ * to save.
+ */
+export const buildForecast = (
+  income: ComparisonRecord[],
+  expenses: ComparisonRecord[],
+  goals: ForecastGoal[],
+  count: number,
+  target: Currency,
+  rates: RateHistory,
+  startMonth: number,
+  today: Date = new Date()
+): Forecast => {
+  const convert = (record: { amount: number; currency: Currency; date: string }) =>
+    convertMoney(money(record.amount, record.currency), target, record.date, rates)?.money || null;
+  // History is a subset of the records behind the opening balance, so misses are counted there
+  let unconverted = 0;
+
+  const [current] = trendBuckets('quarter', 1, toIsoDate(today), startMonth);
+  const lastClosed = toIsoDate(addDays(parseISO(current.start), -1));
+
+  // History starts with the first quarter that has any record in it
+  const firstDate = [...income, ...expenses].reduce((first, record) => (record.date < first ? record.date : first), current.start);
+  const history = trendBuckets('quarter', FORECAST_HISTORY_QUARTERS, lastClosed, startMonth)
+    .filter((bucket) => bucket.end >= firstDate);
+
+  const incomeTotals = totalsByQuarter(income, history, convert);
+  const expenseTotals = totalsByQuarter(expenses, history, convert);
+
+  let opening = zero(target);
+  const addToOpening = (records: ComparisonRecord[], sign: 1 | -1) => {
+    records.filter((record) => record.date <= current.end).forEach((record) => {
+      const value = convert(record);
+      if (!value) {
+        unconverted += 1;
+        return;
+      }
+      opening = sign === 1 ? add(opening, value) : subtract(opening, value);
+    });
+  };
+  addToOpening(income, 1);
+  addToOpening(expenses, -1);
+
+  const lastFuture = toIsoDate(addMonths(parseISO(current.start), count * 3));
+  const future = trendBuckets('quarter', count, lastFuture, startMonth);
+
+  const historyQuarters = history.map((bucket) => quarterOf(bucket.start, startMonth).quarter);
+  let seasonal = true;
+
+  let closing = opening;
+  let closingLow = opening;
+  let closingHigh = opening;
+
+  const periods = future.map((bucket) => {
+    const quarter = quarterOf(bucket.start, startMonth).quarter;
+    let matches = historyQuarters.map((q, i) => (q === quarter ? i : -1)).filter((i) => i !== -1);
+    if (matches.length === 0) {
+      seasonal = false;
+      matches = history.map((_, i) => i);
+    }
+
+    const projectedIncome = projectQuarter(matches.map((i) => incomeTotals[i]), target);
+    const projectedExpenses = projectQuarter(matches.map((i) => expenseTotals[i]), target);
+
+    const goalItems = goals
+      .filter((goal) => goal.target_date >= bucket.start && goal.target_date <= bucket.end)
+      .map((goal) => {
+        const remaining = Math.max(goal.target_amount - goal.current_amount, 0);
+        // Future amounts are converted at today's rate
+        const value = convert({ amount: remaining, currency: goal.currency, date: toIsoDate(today) });
+        if (!value) unconverted += 1;
+        return value && { name: goal.name, targetDate: goal.target_date, remaining: value };
+      })
+      .filter((item): item is ForecastGoalItem => Boolean(item) && item.remaining.minor > 0);
+    const goalTotal = sum(goalItems.map((item) => item.remaining), target);
+
+    const net = subtract(subtract(projectedIncome.expected, projectedExpenses.expected), goalTotal);
+    closing = add(closing, net);
+    closingLow = add(closingLow, subtract(subtract(projectedIncome.low, projectedExpenses.high), goalTotal));
+    closingHigh = add(closingHigh, subtract(subtract(projectedIncome.high, projectedExpenses.low), goalTotal));
+
+    return {
+      ...bucket,
+      income: projectedIncome.expected,
+      incomeLow: projectedIncome.low,
+      incomeHigh: projectedIncome.high,
+      expenses: projectedExpenses.expected,
+      expensesLow: projectedExpenses.low,
+      expensesHigh: projectedExpenses.high,
+      incomeBySource: projectedIncome.lines,
+      expensesByCategory: projectedExpenses.lines,
+      goals: goalItems,
+      goalTotal,
+      net,
+      closing,
+      closingLow,
+      closingHigh,
+    };
+  });
+
+  return {
+    currency: target,
+    opening,
+    history: history.map((bucket, i) => ({
+      ...bucket,
+      income: sum(Array.from(incomeTotals[i].values()), target),
+      expenses: sum(Array.from(expenseTotals[i].values()), target),
+    })),
+    periods,
+    seasonal: seasonal && history.length > 0,
+    unconverted,
+  };
+};
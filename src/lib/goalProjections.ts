@@ -0,0 +1,103 @@
+import { addDays, differenceInCalendarDays, format, parseISO, subMonths } from 'date-fns';
+import { Currency } from '@/lib/currency';
+import { Money, money, multiplyByRate, subtract, sumAmounts } from '@/lib/money';
+
+export type GoalStatus = 'complete' | 'on-track' | 'at-risk' | 'behind';
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  complete: 'Complete',
+  'on-track': 'On track',
+  'at-risk': 'At risk',
+  behind: 'Behind',
+};
+
+// Recent months the contribution rate is measured over
+export const CONTRIBUTION_WINDOW_MONTHS = 6;
+// Saving at least this share of the required monthly deposit counts as at risk rather than behind
+export const AT_RISK_SHARE = 0.75;
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export interface ProjectableGoal {
+  target_amount: number;
+  current_amount: number;
+  currency: Currency;
+  target_date: string | null;
+}
+
+export interface GoalTransaction {
+  amount: number;
+  transaction_type: 'deposit' | 'withdrawal';
+  transaction_date: string;
+}
+
+export interface GoalProjection {
+  remaining: Money;
+  // Net deposits per month over the contribution window, in the goal's currency
+  monthlyRate: Money;
+  // null when nothing is being added, so the goal would never finish
+  projectedDate: string | null;
+  // Deposit per month needed from now to finish by target_date; null without one
+  requiredMonthly: Money | null;
+  // null for unfinished goals without a target_date
+  status: GoalStatus | null;
+}
+
+export const contributionWindowStart = (today: Date = new Date()) =>
+  format(subMonths(today, CONTRIBUTION_WINDOW_MONTHS), 'yyyy-MM-dd');
+
+/**
+ * Projects when a goal completes at its recent contribution rate. The rate is
+ * net deposits since the window start, or since the first transaction if the
+ * goal is newer, spread over at least one month.
+ */
+export const projectGoal = (
+  goal: ProjectableGoal,
+  transactions: GoalTransaction[],
+  today: Date = new Date()
+): GoalProjection => {
+  const { currency } = goal;
+  const remaining = subtract(money(goal.target_amount, currency), money(goal.current_amount, currency));
+
+  const windowStart = contributionWindowStart(today);
+  const recent = transactions.filter((transaction) => transaction.transaction_date >= windowStart);
+  const net = subtract(
+    sumAmounts(recent.filter((t) => t.transaction_type === 'deposit').map((t) => t.amount), currency),
+    sumAmounts(recent.filter((t) => t.transaction_type === 'withdrawal').map((t) => t.amount), currency)
+  );
+  const firstDate = recent.reduce((first, t) => (t.transaction_date < first ? t.transaction_date : first), format(today, 'yyyy-MM-dd'));
+  const months = Math.max(
+    Math.min(differenceInCalendarDays(today, parseISO(firstDate)), differenceInCalendarDays(today, parseISO(windowStart))) / DAYS_PER_MONTH,
+    1
+  );
+  const monthlyRate = multiplyByRate(net, 1 / months, currency);
+
+  if (remaining.minor <= 0) {
+    return { remaining, monthlyRate, projectedDate: format(today, 'yyyy-MM-dd'), requiredMonthly: null, status: 'complete' };
+  }
+
+  const projectedDate = monthlyRate.minor > 0
+    ? format(addDays(today, Math.ceil((remaining.minor / monthlyRate.minor) * DAYS_PER_MONTH)), 'yyyy-MM-dd')
+    : null;
+
+  if (!goal.target_date) {
+    return { remaining, monthlyRate, projectedDate, requiredMonthly: null, status: null };
+  }
+
+  // A target date already passed needs everything that is left now
+  const monthsLeft = Math.max(differenceInCalendarDays(parseISO(goal.target_date), today) / DAYS_PER_MONTH, 1);
+  const requiredMonthly = multiplyByRate(remaining, 1 / monthsLeft, currency);
+
+  let status: GoalStatus;
+  if (goal.target_date < format(today, 'yyyy-MM-dd')) {
+    status = 'behind';
+  } else if (monthlyRate.minor >= requiredMonthly.minor) {
+    status = 'on-track';
+  } else if (monthlyRate.minor >= requiredMonthly.minor * AT_RISK_SHARE) {
+    status = 'at-risk';
+  } else {
+    status = 'behind';
+  }
+
+  return { remaining, monthlyRate, projectedDate, requiredMonthly, status };
+};
@@ -0,0 +1,101 @@
+import { differenceInCalendarDays, differenceInCalendarMonths, format, parseISO, subMonths } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { Currency } from '@/lib/currency';
+import { Money, multiplyByRate } from '@/lib/money';
+
+export type CpiRow = Pick<Tables<'consumer_price_index'>, 'currency' | 'month' | 'index_value'>;
+
+// Targets closer than this are shown at face value
+export const FAR_TARGET_MONTHS = 6;
+
+interface CpiEntry {
+  month: string;
+  index: number;
+}
+
+// Index values per currency, sorted by month ascending
+export type CpiSeries = Map<Currency, CpiEntry[]>;
+
+export const buildCpiSeries = (rows: CpiRow[]): CpiSeries => {
+  const series: CpiSeries = new Map();
+  rows.forEach((row) => {
+    const entries = series.get(row.currency) || [];
+    entries.push({ month: row.month, index: Number(row.index_value) });
+    series.set(row.currency, entries);
+  });
+  series.forEach((entries) => entries.sort((a, b) => a.month.localeCompare(b.month)));
+  return series;
+};
+
+export const monthStart = (date: string) => `${date.slice(0, 7)}-01`;
+
+// Latest index published for the month of `date` or earlier
+export const cpiOn = (series: CpiSeries, currency: Currency, date: string): number | null => {
+  const month = monthStart(date);
+  let index: number | null = null;
+  for (const entry of series.get(currency) || []) {
+    if (entry.month > month) break;
+    index = entry.index;
+  }
+  return index;
+};
+
+/**
+ * Restates an amount dated `date` in the prices of `baseMonth`, using the
+ * CPI series for the amount's own currency. Returns null when either month
+ * has no index.
+ */
+export const deflate = (value: Money, date: string, baseMonth: string, series: CpiSeries): Money | null => {
+  const from = cpiOn(series, value.currency, date);
+  const base = cpiOn(series, value.currency, baseMonth);
+  if (!from || !base) return null;
+  return multiplyByRate(value, base / from, value.currency);
+};
+
+// Restating amounts in the prices of one month, as toggled on the Dashboard and reports
+export interface RealTerms {
+  // First day of the month whose prices amounts are restated in
+  baseMonth: string;
+  cpi: CpiSeries;
+}
+
+/**
+ * `value` in real terms when `realTerms` is given. When the index doesn't
+ * cover its month or the base month, the nominal amount is returned and
+ * `nominal` is set so callers can report it.
+ */
+export const inRealTerms = (value: Money, date: string, realTerms?: RealTerms) => {
+  const real = realTerms ? deflate(value, date, realTerms.baseMonth, realTerms.cpi) : null;
+  return { money: real || value, nominal: Boolean(realTerms) && !real };
+};
+
+// Year-on-year change of the latest index at or before `asOf`, e.g. 0.23 for 23%
+export const annualInflation = (series: CpiSeries, currency: Currency, asOf: string): number | null => {
+  const latest = cpiOn(series, currency, asOf);
+  const yearAgo = cpiOn(series, currency, format(subMonths(parseISO(asOf), 12), 'yyyy-MM-dd'));
+  if (!latest || !yearAgo) return null;
+  return latest / yearAgo - 1;
+};
+
+// What an amount due on `dueDate` is worth in today's prices if inflation holds at `annualRate`
+export const presentValue = (value: Money, dueDate: string, annualRate: number, asOf: string): Money => {
+  const years = Math.max(differenceInCalendarDays(parseISO(dueDate), parseISO(asOf)), 0) / 365.25;
+  return multiplyByRate(value, 1 / (1 + annualRate) ** years, value.currency);
+};
+
+/**
+ * A far-off target restated in today's money, assuming the latest annual
+ * inflation of its currency continues. Null for near targets or when the
+ * currency has less than a year of index history.
+ */
+export const todaysValue = (
+  value: Money,
+  dueDate: string,
+  series: CpiSeries,
+  asOf: string = format(new Date(), 'yyyy-MM-dd')
+): { money: Money; inflation: number } | null => {
+  if (differenceInCalendarMonths(parseISO(dueDate), parseISO(asOf)) < FAR_TARGET_MONTHS) return null;
+  const inflation = annualInflation(series, value.currency, asOf);
+  if (inflation === null) return null;
+  return { money: presentValue(value, dueDate, inflation, asOf), inflation };
+};
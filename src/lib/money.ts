@@ -0,0 +1,133 @@
+import {
+  CURRENCIES,
+  Currency,
+  DEFAULT_RATE_FALLBACK,
+  RateFallback,
+  RateHistory,
+  RateLookup,
+  formatCurrency,
+  lookupRate,
+} from '@/lib/currency';
+
+/**
+ * An amount held as an integer count of the currency's minor units
+ * (pesewas, cents, ...), so sums never drift the way float dollars do.
+ */
+export interface Money {
+  minor: number;
+  currency: Currency;
+}
+
+export interface MoneyConversion extends RateLookup {
+  money: Money;
+}
+
+const scale = (currency: Currency) => 10 ** CURRENCIES[currency].decimals;
+
+// Half away from zero, the way DECIMAL(15,2) rounds on insert
+export const roundHalfAwayFromZero = (value: number) => {
+  const rounded = Math.round(Math.abs(value));
+  return value < 0 ? -rounded : rounded;
+};
+
+// Shift via the exponent so 1.005 becomes 100.5 minor units rather than 100.49999...
+const shift = (value: number, digits: number) => {
+  const [mantissa, exponent = '0'] = value.toString().split('e');
+  return Number(`${mantissa}e${Number(exponent) + digits}`);
+};
+
+export const toMinor = (amount: number | string, currency: Currency) => {
+  const value = Number(amount);
+  if (!Number.isFinite(value)) return 0;
+  return roundHalfAwayFromZero(shift(value, CURRENCIES[currency].decimals));
+};
+
+export const fromMinor = (minor: number, currency: Currency) => minor / scale(currency);
+
+export const money = (amount: number | string, currency: Currency): Money => ({
+  minor: toMinor(amount, currency),
+  currency,
+});
+
+export const zero = (currency: Currency): Money => ({ minor: 0, currency });
+
+export const toAmount = (value: Money) => fromMinor(value.minor, value.currency);
+
+// Rounds user input to the currency's precision, e.g. before saving a form
+export const parseAmount = (value: string, currency: Currency) => toAmount(money(value, currency));
+
+export const amountStep = (currency: Currency) => (1 / scale(currency)).toString();
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts without conversion`);
+  }
+};
+
+export const add = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { minor: a.minor + b.minor, currency: a.currency };
+};
+
+export const subtract = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { minor: a.minor - b.minor, currency: a.currency };
+};
+
+export const negate = (value: Money): Money => ({ minor: -value.minor, currency: value.currency });
+
+export const sum = (values: Money[], currency: Currency): Money =>
+  values.reduce(add, zero(currency));
+
+export const sumAmounts = (amounts: (number | string)[], currency: Currency): Money =>
+  sum(amounts.map((amount) => money(amount, currency)), currency);
+
+// Applies an exchange rate and rounds once, in the target currency's minor units
+export const multiplyByRate = (value: Money, rate: number, to: Currency): Money => ({
+  minor: roundHalfAwayFromZero(shift(toAmount(value) * rate, CURRENCIES[to].decimals)),
+  currency: to,
+});
+
+/**
+ * Splits an amount in proportion to `ratios` without losing or inventing a
+ * minor unit: leftover units go to the shares with the largest remainders.
+ */
+export const allocate = (value: Money, ratios: number[]): Money[] => {
+  const total = ratios.reduce((acc, ratio) => acc + ratio, 0);
+  if (ratios.length === 0 || total <= 0) return ratios.map(() => zero(value.currency));
+
+  const exact = ratios.map((ratio) => (value.minor * ratio) / total);
+  const shares = exact.map((share) => Math.trunc(share));
+  let remainder = value.minor - shares.reduce((acc, share) => acc + share, 0);
+  const step = remainder < 0 ? -1 : 1;
+
+  const order = exact
+    .map((share, index) => ({ index, fraction: Math.abs(share - shares[index]) }))
+    .sort((a, b) => b.fraction - a.fraction);
+
+  for (let i = 0; remainder !== 0; i = (i + 1) % order.length) {
+    shares[order[i].index] += step;
+    remainder -= step;
+  }
+
+  return shares.map((minor) => ({ minor, currency: value.currency }));
+};
+
+export const convertMoney = (
+  value: Money,
+  to: Currency,
+  date: string,
+  history: RateHistory,
+  fallback: RateFallback = DEFAULT_RATE_FALLBACK
+): MoneyConversion | null => {
+  const lookup = lookupRate(value.currency, to, date, history, fallback);
+  return lookup ? { ...lookup, money: multiplyByRate(value, lookup.rate, to) } : null;
+};
+
+// Ratio of two amounts in the same currency, e.g. a savings rate; 0 when the base is zero
+export const ratio = (part: Money, whole: Money) => {
+  assertSameCurrency(part, whole);
+  return whole.minor === 0 ? 0 : part.minor / whole.minor;
+};
+
+export const formatMoney = (value: Money) => formatCurrency(toAmount(value), value.currency);
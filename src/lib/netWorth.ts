@@ -0,0 +1,177 @@
+import { endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
+import { Currency, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, money, subtract, zero } from '@/lib/money';
+
+export type NetWorthItemType =
+  | 'bank_account'
+  | 'mobile_money'
+  | 'cash'
+  | 'land'
+  | 'vehicle'
+  | 'investment'
+  | 'other_asset'
+  | 'loan'
+  | 'credit_card'
+  | 'other_liability';
+
+export const NET_WORTH_ITEM_TYPES: { value: NetWorthItemType; label: string; liability: boolean }[] = [
+  { value: 'bank_account', label: 'Bank account', liability: false },
+  { value: 'mobile_money', label: 'Mobile money wallet', liability: false },
+  { value: 'cash', label: 'Cash', liability: false },
+  { value: 'land', label: 'Land / property', liability: false },
+  { value: 'vehicle', label: 'Vehicle', liability: false },
+  { value: 'investment', label: 'Investment', liability: false },
+  { value: 'other_asset', label: 'Other asset', liability: false },
+  { value: 'loan', label: 'Loan', liability: true },
+  { value: 'credit_card', label: 'Credit card', liability: true },
+  { value: 'other_liability', label: 'Other liability', liability: true },
+];
+
+export const isLiability = (type: NetWorthItemType) =>
+  NET_WORTH_ITEM_TYPES.some((option) => option.value === type && option.liability);
+
+export const itemTypeLabel = (type: NetWorthItemType) =>
+  NET_WORTH_ITEM_TYPES.find((option) => option.value === type)?.label || type;
+
+export interface NetWorthValuation {
+  id: string;
+  item_id: string;
+  valuation_date: string;
+  value: number;
+  note: string | null;
+}
+
+export interface NetWorthItem {
+  id: string;
+  name: string;
+  item_type: NetWorthItemType;
+  currency: Currency;
+  description: string | null;
+  // False once sold, closed or repaid; kept for the history up to then
+  is_active: boolean;
+}
+
+export interface GoalBalance {
+  id: string;
+  currency: Currency;
+  current_amount: number;
+}
+
+export interface GoalTransaction {
+  savings_goal_id: string;
+  amount: number;
+  transaction_type: 'deposit' | 'withdrawal';
+  transaction_date: string;
+}
+
+export interface NetWorthPoint {
+  label: string;
+  date: string;
+  assets: Money;
+  liabilities: Money;
+  savings: Money;
+  netWorth: Money;
+}
+
+export interface NetWorthHistory {
+  points: NetWorthPoint[];
+  // Items and goals left out of at least one point for lack of a rate
+  unconverted: number;
+}
+
+// The latest valuation on or before `date`, from valuations sorted oldest first
+export const valuationOn = (valuations: NetWorthValuation[], date: string) => {
+  let latest: NetWorthValuation | null = null;
+  for (const valuation of valuations) {
+    if (valuation.valuation_date > date) break;
+    latest = valuation;
+  }
+  return latest;
+};
+
+// A goal's balance on `date`: today's balance less everything moved in or out since
+export const goalBalanceOn = (goal: GoalBalance, transactions: GoalTransaction[], date: string) =>
+  transactions
+    .filter((transaction) => transaction.savings_goal_id === goal.id && transaction.transaction_date > date)
+    .reduce(
+      (balance, transaction) => transaction.transaction_type === 'deposit'
+        ? subtract(balance, money(transaction.amount, goal.currency))
+        : add(balance, money(transaction.amount, goal.currency)),
+      money(goal.current_amount, goal.currency)
+    );
+
+/**
+ * Net worth at the end of each of the last `months` months, the current one
+ * ending today. Items carry their latest valuation forward until the next
+ * one, and each balance is converted at the rate on the point's date.
+ * Retired items stop counting after their final valuation.
+ */
+export const buildNetWorthHistory = (
+  items: NetWorthItem[],
+  valuations: NetWorthValuation[],
+  goals: GoalBalance[],
+  transactions: GoalTransaction[],
+  months: number,
+  target: Currency,
+  rates: RateHistory,
+  today: Date = new Date()
+): NetWorthHistory => {
+  const byItem = new Map<string, NetWorthValuation[]>();
+  [...valuations]
+    .sort((a, b) => a.valuation_date.localeCompare(b.valuation_date))
+    .forEach((valuation) => {
+      byItem.set(valuation.item_id, [...(byItem.get(valuation.item_id) || []), valuation]);
+    });
+
+  const unconverted = new Set<string>();
+  const convert = (id: string, value: Money, date: string) => {
+    const converted = convertMoney(value, target, date, rates);
+    if (!converted) unconverted.add(id);
+    return converted?.money || zero(target);
+  };
+
+  const points: NetWorthPoint[] = [];
+  const todayIso = format(today, 'yyyy-MM-dd');
+  for (let i = months - 1; i >= 0; i--) {
+    const month = startOfMonth(subMonths(today, i));
+    const date = i === 0 ? todayIso : format(endOfMonth(month), 'yyyy-MM-dd');
+
+    let assets = zero(target);
+    let liabilities = zero(target);
+    items.forEach((item) => {
+      const itemHistory = byItem.get(item.id) || [];
+      const valuation = valuationOn(itemHistory, date);
+      if (!valuation) return;
+      if (!item.is_active && valuation === itemHistory[itemHistory.length - 1] && valuation.valuation_date < date) return;
+      const value = convert(item.id, money(valuation.value, item.currency), date);
+      if (isLiability(item.item_type)) {
+        liabilities = add(liabilities, value);
+      } else {
+        assets = add(assets, value);
+      }
+    });
+
+    let savings = zero(target);
+    goals.forEach((goal) => {
+      const balance = goalBalanceOn(goal, transactions, date);
+      if (balance.minor > 0) savings = add(savings, convert(goal.id, balance, date));
+    });
+
+    points.push({
+      label: format(month, 'MMM yy'),
+      date,
+      assets,
+      liabilities,
+      savings,
+      netWorth: subtract(add(assets, savings), liabilities),
+    });
+  }
+
+  return { points, unconverted: unconverted.size };
+};
+
+// Sorted oldest first, for valuationOn
+export const itemValuations = (valuations: NetWorthValuation[], itemId: string) =>
+  valuations
+    .filter((valuation) => valuation.item_id === itemId)
+    .sort((a, b) => a.valuation_date.localeCompare(b.valuation_date));
@@ -0,0 +1,22 @@
+// PostgREST returns at most this many rows per request by default
+export const PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: unknown;
+}
+
+/**
+ * Reads every row of a query by requesting consecutive ranges until a short
+ * page comes back. `page` must apply a total ordering so rows don't shift
+ * between requests.
+ */
+export const fetchAllPages = async <T>(page: (from: number, to: number) => PromiseLike<PageResult<T>>) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
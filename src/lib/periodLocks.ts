@@ -0,0 +1,24 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { Quarter } from '@/lib/currency';
+import { quarterOf } from '@/lib/periods';
+
+export type PeriodLock = Tables<'period_locks'>;
+
+// SQLSTATEs raised by the enforce_period_lock and refresh_record_periods triggers
+export const PERIOD_LOCKED_ERROR = 'PL001';
+export const FISCAL_YEAR_LOCKED_ERROR = 'PL002';
+
+export const isPeriodLockedError = (error: unknown) =>
+  (error as { code?: string })?.code === PERIOD_LOCKED_ERROR;
+
+export const activeLocks = (locks: PeriodLock[]) => locks.filter((lock) => !lock.reopened_at);
+
+export const findActiveLock = (locks: PeriodLock[], quarter: Quarter, year: number) =>
+  activeLocks(locks).find((lock) => lock.quarter === quarter && lock.year === year);
+
+// Mirrors public.is_period_locked for the user's fiscal year
+export const isDateLocked = (locks: PeriodLock[], date: string, startMonth: number) => {
+  if (!date) return false;
+  const { quarter, year } = quarterOf(date, startMonth);
+  return Boolean(findActiveLock(locks, quarter, year));
+};
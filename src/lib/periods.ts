@@ -0,0 +1,201 @@
+import { addDays, addMonths, differenceInCalendarDays, endOfMonth, format, parseISO } from 'date-fns';
+import { Quarter } from '@/lib/currency';
+
+export type PeriodKind = 'month' | 'quarter' | 'half' | 'year' | 'custom';
+
+export const PERIOD_KINDS: { value: PeriodKind; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'half', label: 'Half-year' },
+  { value: 'year', label: 'Year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Calendar month (1-12) a fiscal year starts in; 1 means calendar quarters
+export const DEFAULT_FISCAL_YEAR_START = 1;
+
+export interface PeriodSelection {
+  kind: PeriodKind;
+  // Fiscal year, named after the calendar year it ends in
+  year: number;
+  // 1-based month, quarter or half within the fiscal year; unused for 'year' and 'custom'
+  index: number;
+  customStart: string;
+  customEnd: string;
+}
+
+export interface ReportPeriod {
+  // Inclusive ISO dates
+  start: string;
+  end: string;
+  label: string;
+}
+
+const toIsoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Months elapsed since the start of the fiscal year a date falls in (0-11)
+const fiscalMonthOffset = (date: Date, startMonth: number) => (date.getMonth() + 1 - startMonth + 12) % 12;
+
+export const fiscalYearOf = (date: Date, startMonth: number = DEFAULT_FISCAL_YEAR_START) =>
+  date.getFullYear() + (startMonth > 1 && date.getMonth() + 1 >= startMonth ? 1 : 0);
+
+export const fiscalYearStart = (year: number, startMonth: number = DEFAULT_FISCAL_YEAR_START) =>
+  new Date(startMonth > 1 ? year - 1 : year, startMonth - 1, 1);
+
+// The fiscal quarter a date falls in, as the database trigger derives it
+export const quarterOf = (
+  date: string,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START
+): { quarter: Quarter; year: number } => {
+  const parsed = parseISO(date);
+  return {
+    quarter: `Q${Math.floor(fiscalMonthOffset(parsed, startMonth) / 3) + 1}` as Quarter,
+    year: fiscalYearOf(parsed, startMonth),
+  };
+};
+
+export const fiscalQuarterLabel = ({ quarter, year }: { quarter: Quarter; year: number }) => `FY${year} ${quarter}`;
+
+// Choices for the month/quarter/half select of a period kind, in fiscal order
+export const periodIndexOptions = (
+  kind: PeriodKind,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START
+): { value: number; label: string }[] => {
+  switch (kind) {
+    case 'month':
+      return MONTH_NAMES.map((_, i) => ({ value: i + 1, label: MONTH_NAMES[(startMonth - 1 + i) % 12] }));
+    case 'quarter':
+      return [1, 2, 3, 4].map((value) => ({ value, label: `Q${value}` }));
+    case 'half':
+      return [1, 2].map((value) => ({ value, label: `H${value}` }));
+    default:
+      return [];
+  }
+};
+
+export const currentPeriodIndex = (
+  kind: PeriodKind,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START,
+  date: Date = new Date()
+) => {
+  const offset = fiscalMonthOffset(date, startMonth);
+  switch (kind) {
+    case 'month':
+      return offset + 1;
+    case 'quarter':
+      return Math.floor(offset / 3) + 1;
+    case 'half':
+      return offset < 6 ? 1 : 2;
+    default:
+      return 1;
+  }
+};
+
+export const defaultPeriodSelection = (
+  startMonth: number = DEFAULT_FISCAL_YEAR_START,
+  date: Date = new Date(),
+  kind: PeriodKind = 'quarter'
+): PeriodSelection => ({
+  kind,
+  year: fiscalYearOf(date, startMonth),
+  index: currentPeriodIndex(kind, startMonth, date),
+  customStart: toIsoDate(new Date(date.getFullYear(), date.getMonth(), 1)),
+  customEnd: toIsoDate(date),
+});
+
+// `months` consecutive months starting `offset` months into the fiscal year
+const fiscalRange = (year: number, startMonth: number, offset: number, months: number) => {
+  const start = addMonths(fiscalYearStart(year, startMonth), offset);
+  return { start: toIsoDate(start), end: toIsoDate(endOfMonth(addMonths(start, months - 1))) };
+};
+
+export const resolvePeriod = (
+  selection: PeriodSelection,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START
+): ReportPeriod => {
+  const { kind, year, index } = selection;
+  switch (kind) {
+    case 'month': {
+      const range = fiscalRange(year, startMonth, index - 1, 1);
+      return { ...range, label: format(parseISO(range.start), 'MMM yyyy') };
+    }
+    case 'quarter':
+      return { ...fiscalRange(year, startMonth, (index - 1) * 3, 3), label: fiscalQuarterLabel({ quarter: `Q${index}` as Quarter, year }) };
+    case 'half':
+      return { ...fiscalRange(year, startMonth, (index - 1) * 6, 6), label: `FY${year} H${index}` };
+    case 'year':
+      return { ...fiscalRange(year, startMonth, 0, 12), label: `FY${year}` };
+    case 'custom':
+      return {
+        start: selection.customStart,
+        end: selection.customEnd,
+        label: `${format(parseISO(selection.customStart), 'd MMM yyyy')} – ${format(parseISO(selection.customEnd), 'd MMM yyyy')}`,
+      };
+  }
+};
+
+const PERIODS_PER_YEAR: Partial<Record<PeriodKind, number>> = { month: 12, quarter: 4, half: 2, year: 1 };
+
+// The period of the same kind immediately before; a custom range of the same length for 'custom'
+export const previousPeriodSelection = (selection: PeriodSelection): PeriodSelection => {
+  if (selection.kind === 'custom') {
+    const start = parseISO(selection.customStart);
+    const days = differenceInCalendarDays(parseISO(selection.customEnd), start) + 1;
+    return {
+      ...selection,
+      customStart: toIsoDate(addDays(start, -days)),
+      customEnd: toIsoDate(addDays(start, -1)),
+    };
+  }
+  const first = selection.kind === 'year' || selection.index === 1;
+  return {
+    ...selection,
+    year: first ? selection.year - 1 : selection.year,
+    index: first ? PERIODS_PER_YEAR[selection.kind] : selection.index - 1,
+  };
+};
+
+export const previousPeriod = (
+  selection: PeriodSelection,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START
+): ReportPeriod => resolvePeriod(previousPeriodSelection(selection), startMonth);
+
+// The same month, quarter or half a fiscal year earlier; custom ranges move back twelve months
+export const samePeriodLastYear = (selection: PeriodSelection): PeriodSelection => {
+  if (selection.kind === 'custom') {
+    return {
+      ...selection,
+      customStart: toIsoDate(addMonths(parseISO(selection.customStart), -12)),
+      customEnd: toIsoDate(addMonths(parseISO(selection.customEnd), -12)),
+    };
+  }
+  return { ...selection, year: selection.year - 1 };
+};
+
+// Round-trips a selection through the URL so other pages can link to a period
+export const periodSearchParams = (selection: PeriodSelection) => {
+  const params = new URLSearchParams({ period: selection.kind, year: selection.year.toString(), index: selection.index.toString() });
+  if (selection.kind === 'custom') {
+    params.set('from', selection.customStart);
+    params.set('to', selection.customEnd);
+  }
+  return params;
+};
+
+export const periodSelectionFromSearch = (params: URLSearchParams, fallback: PeriodSelection): PeriodSelection => {
+  const kind = params.get('period') as PeriodKind;
+  if (!PERIOD_KINDS.some((option) => option.value === kind)) return fallback;
+  return {
+    kind,
+    year: parseInt(params.get('year')) || fallback.year,
+    index: parseInt(params.get('index')) || fallback.index,
+    customStart: params.get('from') || fallback.customStart,
+    customEnd: params.get('to') || fallback.customEnd,
+  };
+};
+
+// Fiscal years to offer in pickers: those with records, plus the current one
+export const yearOptions = (recordYears: number[], startMonth: number = DEFAULT_FISCAL_YEAR_START) =>
+  Array.from(new Set([...recordYears, fiscalYearOf(new Date(), startMonth)])).sort((a, b) => b - a);
@@ -0,0 +1,214 @@
+import { Constants } from '@/integrations/supabase/types';
+import type { Currency, CurrencyRate } from '@/lib/currency';
+
+export type RateColumn = 'buying' | 'selling' | 'mid';
+
+export interface RateImportError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedRateFile {
+  rates: CurrencyRate[];
+  errors: RateImportError[];
+}
+
+// Bank of Ghana sheets quote a single foreign currency against the cedi
+const DEFAULT_QUOTE_CURRENCY: Currency = 'GHS';
+
+const SUPPORTED_CURRENCIES: readonly string[] = Constants.public.Enums.currency_type;
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF or LF line endings
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+};
+
+// Accepts 2025-01-31, 31/01/2025 (day first, as Bank of Ghana publishes) and 31 Jan 2025
+export const parseRateDate = (value: string): string | null => {
+  const trimmed = value.trim();
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = trimmed.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    return month > 0 ? toIsoDate(Number(match[3]), month, Number(match[1])) : null;
+  }
+
+  return null;
+};
+
+// "USD/GHS", "USD-GHS", "USDGHS" or a bare "USD" quoted in cedis
+export const parsePair = (value: string): [Currency, Currency] | null => {
+  const cleaned = value.trim().toUpperCase();
+  const match = cleaned.match(/^([A-Z]{3})\s*[/\-_ ]?\s*([A-Z]{3})?$/);
+  if (!match) return null;
+
+  const from = match[1];
+  const to = match[2] || DEFAULT_QUOTE_CURRENCY;
+  if (!SUPPORTED_CURRENCIES.includes(from) || !SUPPORTED_CURRENCIES.includes(to) || from === to) {
+    return null;
+  }
+  return [from as Currency, to as Currency];
+};
+
+const parseNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(/,/g, '').trim());
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const HEADER_ALIASES: Record<string, string[]> = {
+  date: ['date', 'rate date', 'value date'],
+  pair: ['pair', 'currency', 'currency pair'],
+  buying: ['buying', 'buy', 'bid'],
+  selling: ['selling', 'sell', 'ask', 'offer'],
+  mid: ['mid', 'mid rate', 'midrate', 'mid-rate'],
+};
+
+export const parseRateFile = (text: string, rateColumn: RateColumn): ParsedRateFile => {
+  const [header, ...body] = parseCsv(text);
+  if (!header) return { rates: [], errors: [{ line: 1, message: 'File is empty' }] };
+
+  const normalized = header.map((cell) => cell.trim().toLowerCase());
+  const columnIndex = (column: string) =>
+    normalized.findIndex((cell) => HEADER_ALIASES[column].includes(cell));
+
+  const dateIndex = columnIndex('date');
+  const pairIndex = columnIndex('pair');
+  const rateIndex = columnIndex(rateColumn);
+
+  const missing = [
+    dateIndex < 0 && 'date',
+    pairIndex < 0 && 'pair',
+    rateIndex < 0 && rateColumn,
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { rates: [], errors: [{ line: 1, message: `Missing column(s): ${missing.join(', ')}` }] };
+  }
+
+  const rates: CurrencyRate[] = [];
+  const errors: RateImportError[] = [];
+
+  body.forEach((cells, index) => {
+    const line = index + 2;
+    const date = parseRateDate(cells[dateIndex] || '');
+    const pair = parsePair(cells[pairIndex] || '');
+    const rate = parseNumber(cells[rateIndex] || '');
+
+    if (!date) {
+      errors.push({ line, message: `Unrecognised date "${cells[dateIndex] || ''}"` });
+    } else if (!pair) {
+      errors.push({ line, message: `Unsupported currency pair "${cells[pairIndex] || ''}"` });
+    } else if (rate === null || rate <= 0) {
+      errors.push({ line, message: `Invalid ${rateColumn} rate "${cells[rateIndex] || ''}"` });
+    } else {
+      rates.push({ from_currency: pair[0], to_currency: pair[1], rate, date });
+    }
+  });
+
+  return { rates, errors };
+};
+
+const rateKey = (rate: CurrencyRate) => `${rate.from_currency}:${rate.to_currency}:${rate.date}`;
+
+/**
+ * Adds the inverse of every imported rate so both directions stay in sync.
+ * Rates given explicitly in the file win over derived ones, and later lines
+ * for the same pair and date replace earlier ones.
+ */
+export const withInverseRates = (rates: CurrencyRate[]): CurrencyRate[] => {
+  const explicit = new Map<string, CurrencyRate>();
+  rates.forEach((rate) => explicit.set(rateKey(rate), rate));
+
+  const result = new Map(explicit);
+  explicit.forEach((rate) => {
+    const inverse: CurrencyRate = {
+      from_currency: rate.to_currency,
+      to_currency: rate.from_currency,
+      // currency_rates.rate is DECIMAL(15,6)
+      rate: Number((1 / rate.rate).toFixed(6)),
+      date: rate.date,
+    };
+    if (!explicit.has(rateKey(inverse))) {
+      result.set(rateKey(inverse), inverse);
+    }
+  });
+
+  return Array.from(result.values()).sort(
+    (a, b) => a.date.localeCompare(b.date) || rateKey(a).localeCompare(rateKey(b))
+  );
+};
+
+export type ImportStatus = 'new' | 'conflict' | 'unchanged';
+
+export interface RateImportPreviewRow extends CurrencyRate {
+  status: ImportStatus;
+  existingRate: number | null;
+}
+
+export const previewRateImport = (
+  incoming: CurrencyRate[],
+  existing: CurrencyRate[]
+): RateImportPreviewRow[] => {
+  const existingByKey = new Map(existing.map((rate) => [rateKey(rate), Number(rate.rate)]));
+
+  return incoming.map((rate) => {
+    const existingRate = existingByKey.get(rateKey(rate)) ?? null;
+    let status: ImportStatus = 'new';
+    if (existingRate !== null) {
+      status = Math.abs(existingRate - rate.rate) < 0.0000005 ? 'unchanged' : 'conflict';
+    }
+    return { ...rate, status, existingRate };
+  });
+};
@@ -0,0 +1,131 @@
+import { addMonths, addWeeks, format, getDaysInMonth, parseISO, setDate } from 'date-fns';
+import { Currency } from '@/lib/currency';
+
+export type RecurringKind = 'income' | 'expense';
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export const frequencyLabel = (frequency: RecurringFrequency) =>
+  RECURRING_FREQUENCIES.find((option) => option.value === frequency)?.label || frequency;
+
+// Stored in day_of_month for "the last day of the month"
+export const LAST_DAY_OF_MONTH = -1;
+
+export type OccurrenceStatus = 'pending' | 'confirmed' | 'skipped';
+
+export interface RecurringTemplate {
+  id: string;
+  kind: RecurringKind;
+  source: string | null;
+  category_id: string | null;
+  description: string | null;
+  amount: number;
+  currency: Currency;
+  frequency: RecurringFrequency;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  auto_create: boolean;
+  is_active: boolean;
+  expense_categories: {
+    name: string;
+  } | null;
+}
+
+// Columns selected wherever templates are loaded, to fill a RecurringTemplate
+export const RECURRING_TEMPLATE_COLUMNS = `
+  id,
+  kind,
+  source,
+  category_id,
+  description,
+  amount,
+  currency,
+  frequency,
+  day_of_month,
+  start_date,
+  end_date,
+  auto_create,
+  is_active,
+  expense_categories (
+    name
+  )
+`;
+
+export interface RecurringOccurrence {
+  id: string;
+  template_id: string;
+  occurrence_date: string;
+  status: OccurrenceStatus;
+  amount: number | null;
+  income_record_id: string | null;
+  expense_record_id: string | null;
+}
+
+const MONTHS_PER_STEP: Record<Exclude<RecurringFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// The rule's day within the month of `date`, clamped to the month's length
+const dayInMonth = (date: Date, dayOfMonth: number) => {
+  const days = getDaysInMonth(date);
+  return setDate(date, dayOfMonth === LAST_DAY_OF_MONTH ? days : Math.min(dayOfMonth, days));
+};
+
+/**
+ * Due dates of `template` from its start through `through` (and its end
+ * date), as yyyy-MM-dd. Weekly schedules repeat on the start date's weekday;
+ * longer ones step from the start month and land on the day-of-month rule,
+ * or the start date's day when there is none. A rule day before the start
+ * date in the first month falls to the next step.
+ */
+export const occurrenceDates = (template: Pick<RecurringTemplate, 'frequency' | 'day_of_month' | 'start_date' | 'end_date'>, through: string) => {
+  const last = template.end_date && template.end_date < through ? template.end_date : through;
+  const start = parseISO(template.start_date);
+  const dates: string[] = [];
+
+  for (let step = 0; ; step += 1) {
+    const date = template.frequency === 'weekly'
+      ? addWeeks(start, step)
+      : dayInMonth(
+        addMonths(setDate(start, 1), step * MONTHS_PER_STEP[template.frequency]),
+        template.day_of_month ?? start.getDate()
+      );
+    const iso = format(date, 'yyyy-MM-dd');
+    if (iso > last) break;
+    if (iso >= template.start_date) dates.push(iso);
+  }
+  return dates;
+};
+
+// The first due date after `after`, or null once the schedule has ended
+export const nextOccurrence = (template: RecurringTemplate, after: string) => {
+  const horizon = format(addMonths(parseISO(after), 13), 'yyyy-MM-dd');
+  return occurrenceDates(template, horizon).find((date) => date > after) || null;
+};
+
+// The amount recorded, or set for that date alone; otherwise the template's current amount
+export const occurrenceAmount = (occurrence: RecurringOccurrence, template: RecurringTemplate) =>
+  occurrence.amount ?? template.amount;
+
+export const templateName = (template: RecurringTemplate) =>
+  template.kind === 'income' ? template.source || 'Income' : template.expense_categories?.name || 'Expense';
+
+export const dayOfMonthLabel = (dayOfMonth: number | null) => {
+  if (dayOfMonth === null) return 'Same day as start';
+  if (dayOfMonth === LAST_DAY_OF_MONTH) return 'Last day';
+  const suffix = dayOfMonth % 10 === 1 && dayOfMonth !== 11 ? 'st'
+    : dayOfMonth % 10 === 2 && dayOfMonth !== 12 ? 'nd'
+      : dayOfMonth % 10 === 3 && dayOfMonth !== 13 ? 'rd'
+        : 'th';
+  return `${dayOfMonth}${suffix}`;
+};
@@ -0,0 +1,125 @@
+import { addMonths, endOfMonth, format, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { Currency, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, money, negate, subtract, zero } from '@/lib/money';
+
+export type SavingsGoalRow = Tables<'savings_goals'>;
+export type SavingsTransactionRow = Tables<'savings_transactions'>;
+
+interface GoalFlow {
+  date: string;
+  amount: Money;
+}
+
+export interface RevaluationPoint {
+  date: string;
+  // Balance in the goal's own currency
+  nominal: Money;
+  // Balance valued in the comparison currency on this date
+  value: Money | null;
+  // Net deposits valued in the comparison currency on the day each was made
+  costBasis: Money;
+}
+
+export interface GoalRevaluation {
+  points: RevaluationPoint[];
+  nominal: Money;
+  value: Money | null;
+  costBasis: Money;
+  // value - costBasis: negative when the goal currency lost ground
+  change: Money | null;
+  changePercent: number | null;
+  // Deposits or withdrawals with no rate on their date, left out of costBasis
+  unconvertedFlows: number;
+}
+
+const toIsoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Signed deposits and withdrawals for a goal, oldest first. Any part of
+ * current_amount not explained by transactions (e.g. a balance from before
+ * transactions were tracked) becomes an opening deposit on the goal's creation date.
+ */
+export const goalFlows = (goal: SavingsGoalRow, transactions: SavingsTransactionRow[]): GoalFlow[] => {
+  const flows = transactions
+    .map((transaction) => {
+      const amount = money(transaction.amount, goal.currency);
+      return {
+        date: transaction.transaction_date,
+        amount: transaction.transaction_type === 'deposit' ? amount : negate(amount),
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const tracked = flows.reduce((total, flow) => add(total, flow.amount), zero(goal.currency));
+  const opening = subtract(money(goal.current_amount, goal.currency), tracked);
+  if (opening.minor !== 0) {
+    flows.unshift({ date: goal.created_at.split('T')[0], amount: opening });
+  }
+  return flows;
+};
+
+// Month ends between two dates, plus `to` itself so the last point is "today"
+const monthlyDates = (from: string, to: string) => {
+  const dates: string[] = [];
+  for (let month = endOfMonth(parseISO(from)); toIsoDate(month) < to; month = endOfMonth(addMonths(month, 1))) {
+    dates.push(toIsoDate(month));
+  }
+  dates.push(to);
+  return dates;
+};
+
+export const revalueGoal = (
+  goal: SavingsGoalRow,
+  transactions: SavingsTransactionRow[],
+  target: Currency,
+  rates: RateHistory,
+  asOf: string = toIsoDate(new Date())
+): GoalRevaluation => {
+  const flows = goalFlows(goal, transactions).filter((flow) => flow.date <= asOf);
+  const emptyNominal = zero(goal.currency);
+
+  if (flows.length === 0) {
+    return {
+      points: [],
+      nominal: emptyNominal,
+      value: zero(target),
+      costBasis: zero(target),
+      change: zero(target),
+      changePercent: null,
+      unconvertedFlows: 0,
+    };
+  }
+
+  let unconvertedFlows = 0;
+  const flowBasis = flows.map((flow) => {
+    const converted = convertMoney(flow.amount, target, flow.date, rates);
+    if (!converted) unconvertedFlows += 1;
+    return converted?.money || zero(target);
+  });
+
+  const points = monthlyDates(flows[0].date, asOf).map((date) => {
+    let nominal = emptyNominal;
+    let costBasis = zero(target);
+    flows.forEach((flow, index) => {
+      if (flow.date <= date) {
+        nominal = add(nominal, flow.amount);
+        costBasis = add(costBasis, flowBasis[index]);
+      }
+    });
+    return { date, nominal, costBasis, value: convertMoney(nominal, target, date, rates)?.money || null };
+  });
+
+  const latest = points[points.length - 1];
+  const change = latest.value ? subtract(latest.value, latest.costBasis) : null;
+
+  return {
+    points,
+    nominal: latest.nominal,
+    value: latest.value,
+    costBasis: latest.costBasis,
+    change,
+    changePercent: change && latest.costBasis.minor !== 0 ? change.minor / latest.costBasis.minor : null,
+    unconvertedFlows,
+  };
+};
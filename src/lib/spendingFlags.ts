@@ -0,0 +1,152 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { PIVOT_CURRENCY, Quarter, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, formatMoney, multiplyByRate, money, sum, zero } from '@/lib/money';
+import { CategoryExpense } from '@/lib/categories';
+import { fiscalQuarterLabel, quarterOf } from '@/lib/periods';
+
+export type SpendingFlagKind = 'above-average' | 'first-large' | 'duplicate' | 'category-jump';
+
+export const SPENDING_FLAG_LABELS: Record<SpendingFlagKind, string> = {
+  'above-average': 'Above average',
+  'first-large': 'Large first purchase',
+  duplicate: 'Possible duplicate',
+  'category-jump': 'Category jump',
+};
+
+export interface SpendingFlag {
+  // Stable across reloads, so a dismissal sticks to the same flag
+  key: string;
+  kind: SpendingFlagKind;
+  // Set for flags on a single expense; category jumps have none
+  expenseId: string | null;
+  categoryId: string;
+  categoryName: string;
+  // The expense date, or the last day of the flagged quarter
+  date: string;
+  message: string;
+}
+
+export interface SpendingFlagDismissal {
+  id: string;
+  flag_key: string;
+  dismissed_at: string;
+}
+
+// An expense over this multiple of its category's trailing average is flagged
+export const EXPENSE_MULTIPLIER = 2;
+// A quarterly category total over this multiple of its previous quarters is flagged
+export const CATEGORY_JUMP_MULTIPLIER = 1.5;
+// Earlier expenses needed before an average means anything
+export const MIN_HISTORY = 3;
+// How many earlier expenses or quarters the average looks back over
+const TRAILING_EXPENSES = 10;
+const TRAILING_QUARTERS = 4;
+// Same category, amount and currency within this many days looks like a double charge
+export const DUPLICATE_WINDOW_DAYS = 7;
+
+const mean = (values: Money[]) =>
+  multiplyByRate(sum(values, PIVOT_CURRENCY), 1 / values.length, PIVOT_CURRENCY);
+
+const timesAverage = (value: Money, average: Money) => (value.minor / average.minor).toFixed(1);
+
+/**
+ * Flags expenses dated on or after `since` that look out of pattern, plus
+ * categories whose fiscal quarter total jumped. Amounts are compared in the
+ * pivot currency at each expense's date; expenses without a rate are skipped.
+ * Earlier expenses should be passed in too, as history for the averages.
+ */
+export const detectSpendingFlags = (
+  expenses: CategoryExpense[],
+  since: string,
+  rates: RateHistory,
+  startMonth: number
+): SpendingFlag[] => {
+  const flags: SpendingFlag[] = [];
+  const sorted = [...expenses].sort((a, b) => a.expense_date.localeCompare(b.expense_date));
+
+  const byCategory = new Map<string, { expense: CategoryExpense; value: Money }[]>();
+  const all: Money[] = [];
+
+  sorted.forEach((expense) => {
+    const converted = convertMoney(money(expense.amount, expense.currency), PIVOT_CURRENCY, expense.expense_date, rates);
+    if (!converted) return;
+    const value = converted.money;
+    const earlier = byCategory.get(expense.category_id) || [];
+    const categoryName = expense.expense_categories.name;
+    const flag = (kind: SpendingFlagKind, message: string) => flags.push({
+      key: `expense:${expense.id}:${kind}`,
+      kind,
+      expenseId: expense.id,
+      categoryId: expense.category_id,
+      categoryName,
+      date: expense.expense_date,
+      message,
+    });
+
+    if (expense.expense_date >= since) {
+      const duplicate = earlier.find(({ expense: other }) =>
+        other.amount === expense.amount &&
+        other.currency === expense.currency &&
+        differenceInCalendarDays(parseISO(expense.expense_date), parseISO(other.expense_date)) <= DUPLICATE_WINDOW_DAYS
+      );
+      const trailing = earlier.slice(-TRAILING_EXPENSES).map((entry) => entry.value);
+      const overall = all.slice(-TRAILING_EXPENSES * 2);
+
+      if (duplicate) {
+        flag('duplicate', `Same amount as the ${categoryName} expense on ${new Date(duplicate.expense.expense_date).toLocaleDateString()}. Possible double charge.`);
+      } else if (trailing.length >= MIN_HISTORY) {
+        const average = mean(trailing);
+        if (average.minor > 0 && value.minor > average.minor * EXPENSE_MULTIPLIER) {
+          flag('above-average', `${timesAverage(value, average)}× the usual ${categoryName} expense of about ${formatMoney(average)}.`);
+        }
+      } else if (trailing.length === 0 && overall.length >= MIN_HISTORY) {
+        const average = mean(overall);
+        if (average.minor > 0 && value.minor > average.minor * EXPENSE_MULTIPLIER) {
+          flag('first-large', `First ${categoryName} expense, ${timesAverage(value, average)}× your typical expense of about ${formatMoney(average)}.`);
+        }
+      }
+    }
+
+    earlier.push({ expense, value });
+    byCategory.set(expense.category_id, earlier);
+    all.push(value);
+  });
+
+  // Quarter totals per category, counting quarters from the category's first expense
+  byCategory.forEach((entries, categoryId) => {
+    const totals = new Map<number, Money>();
+    const ends = new Map<number, string>();
+    entries.forEach(({ expense, value }) => {
+      const period = quarterOf(expense.expense_date, startMonth);
+      const index = period.year * 4 + parseInt(period.quarter.slice(1)) - 1;
+      totals.set(index, add(totals.get(index) || zero(PIVOT_CURRENCY), value));
+      if (!ends.has(index) || expense.expense_date > ends.get(index)) ends.set(index, expense.expense_date);
+    });
+
+    const first = Math.min(...totals.keys());
+    totals.forEach((total, index) => {
+      if (ends.get(index) < since) return;
+      const previous: Money[] = [];
+      for (let i = Math.max(first, index - TRAILING_QUARTERS); i < index; i++) {
+        previous.push(totals.get(i) || zero(PIVOT_CURRENCY));
+      }
+      if (previous.length < 2) return;
+      const average = mean(previous);
+      if (average.minor <= 0 || total.minor <= average.minor * CATEGORY_JUMP_MULTIPLIER) return;
+
+      const label = fiscalQuarterLabel({ quarter: `Q${(index % 4) + 1}` as Quarter, year: Math.floor(index / 4) });
+      const categoryName = entries[0].expense.expense_categories.name;
+      flags.push({
+        key: `category:${categoryId}:${label}`,
+        kind: 'category-jump',
+        expenseId: null,
+        categoryId,
+        categoryName,
+        date: ends.get(index),
+        message: `${categoryName} spending in ${label} is ${formatMoney(total)}, ${timesAverage(total, average)}× its average of ${formatMoney(average)} over the previous quarters.`,
+      });
+    });
+  });
+
+  return flags.sort((a, b) => b.date.localeCompare(a.date));
+};
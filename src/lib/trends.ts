@@ -0,0 +1,139 @@
+import { endOfMonth, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { Currency, RateHistory } from '@/lib/currency';
+import { Money, add, convertMoney, money, ratio, subtract, zero } from '@/lib/money';
+import { RealTerms, inRealTerms } from '@/lib/inflation';
+import { quarterOf, resolvePeriod } from '@/lib/periods';
+
+export interface DatedAmount {
+  amount: number;
+  currency: Currency;
+  date: string;
+}
+
+export type TrendGranularity = 'month' | 'quarter';
+
+export interface TrendBucket {
+  label: string;
+  // Inclusive ISO dates
+  start: string;
+  end: string;
+}
+
+export interface CurrencyTrend {
+  // Converted into the trend's target currency
+  income: Money;
+  expenses: Money;
+}
+
+export interface TrendPoint {
+  label: string;
+  income: Money;
+  expenses: Money;
+  net: Money;
+  savingsRate: number | null;
+  byCurrency: Map<Currency, CurrencyTrend>;
+}
+
+export interface Trend {
+  points: TrendPoint[];
+  // Every currency that appears in any bucket, for chart series
+  currencies: Currency[];
+  // Records left out for lack of a rate
+  unconverted: number;
+  // Records outside the price index, left in nominal terms
+  undeflated: number;
+}
+
+const emptyPeriod = { customStart: '', customEnd: '' };
+
+// The `count` months or fiscal quarters ending with the one containing `anchor`, oldest first
+export const trendBuckets = (
+  granularity: TrendGranularity,
+  count: number,
+  anchor: string,
+  startMonth: number
+): TrendBucket[] => {
+  const buckets: TrendBucket[] = [];
+
+  if (granularity === 'month') {
+    const last = startOfMonth(parseISO(anchor));
+    for (let i = count - 1; i >= 0; i--) {
+      const month = subMonths(last, i);
+      buckets.push({
+        label: format(month, 'MMM yy'),
+        start: format(month, 'yyyy-MM-dd'),
+        end: format(endOfMonth(month), 'yyyy-MM-dd'),
+      });
+    }
+    return buckets;
+  }
+
+  const current = quarterOf(anchor, startMonth);
+  let year = current.year;
+  let index = parseInt(current.quarter.slice(1));
+  for (let i = 0; i < count; i++) {
+    const period = resolvePeriod({ kind: 'quarter', year, index, ...emptyPeriod }, startMonth);
+    buckets.unshift({ label: period.label, start: period.start, end: period.end });
+    if (index === 1) {
+      index = 4;
+      year -= 1;
+    } else {
+      index -= 1;
+    }
+  }
+  return buckets;
+};
+
+export const buildTrend = (
+  buckets: TrendBucket[],
+  incomeRecords: DatedAmount[],
+  expenseRecords: DatedAmount[],
+  target: Currency,
+  rates: RateHistory,
+  realTerms?: RealTerms
+): Trend => {
+  const currencies = new Set<Currency>();
+  let unconverted = 0;
+  let undeflated = 0;
+
+  const points = buckets.map((bucket) => {
+    const byCurrency = new Map<Currency, CurrencyTrend>();
+    let income = zero(target);
+    let expenses = zero(target);
+
+    const addRecord = (record: DatedAmount, kind: keyof CurrencyTrend) => {
+      if (record.date < bucket.start || record.date > bucket.end) return;
+      const converted = convertMoney(money(record.amount, record.currency), target, record.date, rates);
+      if (!converted) {
+        unconverted += 1;
+        return;
+      }
+      const value = inRealTerms(converted.money, record.date, realTerms);
+      if (value.nominal) undeflated += 1;
+      const row = byCurrency.get(record.currency) || { income: zero(target), expenses: zero(target) };
+      row[kind] = add(row[kind], value.money);
+      byCurrency.set(record.currency, row);
+      currencies.add(record.currency);
+      if (kind === 'income') {
+        income = add(income, value.money);
+      } else {
+        expenses = add(expenses, value.money);
+      }
+    };
+
+    incomeRecords.forEach((record) => addRecord(record, 'income'));
+    expenseRecords.forEach((record) => addRecord(record, 'expenses'));
+
+    const net = subtract(income, expenses);
+    return {
+      label: bucket.label,
+      income,
+      expenses,
+      net,
+      savingsRate: income.minor > 0 ? ratio(net, income) : null,
+      byCurrency,
+    };
+  });
+
+  return { points, currencies: Array.from(currencies).sort(), unconverted, undeflated };
+};
@@ -7,6 +7,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Users, Shield } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import CurrencyRatesManager from '@/components/admin/CurrencyRatesManager';
+import CurrencyRateImport from '@/components/admin/CurrencyRateImport';
+import CpiManager from '@/components/admin/CpiManager';
 
 interface UserProfile {
   id: string;
@@ -20,6 +23,7 @@ const Admin = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [users, setUsers] = useState<UserProfile[]>([]);
+  const [ratesVersion, setRatesVersion] = useState(0);
   const [newUserForm, setNewUserForm] = useState({
     email: '',
     password: '',
@@ -149,6 +153,12 @@ const Admin = () => {
           </CardContent>
         </Card>
       </div>
+
+      <CurrencyRatesManager refreshKey={ratesVersion} />
+
+      <CurrencyRateImport onImported={() => setRatesVersion((version) => version + 1)} />
+
+      <CpiManager />
     </div>
   );
 };
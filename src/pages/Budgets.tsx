@@ -0,0 +1,659 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useBudgetAlerts } from '@/hooks/useBudgetAlerts';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Plus, Edit, Trash2, Wallet, Target, TrendingDown, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import CurrencySelect from '@/components/CurrencySelect';
+import PeriodPicker from '@/components/PeriodPicker';
+import BudgetAlertsList from '@/components/budgets/BudgetAlertsList';
+import RolloverHistoryDialog from '@/components/budgets/RolloverHistoryDialog';
+import EnvelopesPanel from '@/components/envelopes/EnvelopesPanel';
+import { Currency } from '@/lib/currency';
+import { amountStep, formatMoney, negate, parseAmount, ratio } from '@/lib/money';
+import { PeriodKind, PeriodSelection, defaultPeriodSelection, resolvePeriod } from '@/lib/periods';
+import {
+  BUDGET_STATUS_LABELS,
+  Budget,
+  BudgetPeriodType,
+  BudgetStatus,
+  BudgetVariance,
+  DEFAULT_ALERT_THRESHOLDS,
+  ROLLOVER_POLICIES,
+  RolloverPolicy,
+  budgetPeriod,
+  formatAlertThresholds,
+  parseAlertThresholds,
+  raisedAlertsMessage,
+  rolloverHistory,
+  rolloverPolicyLabel,
+  rollupBudgets,
+} from '@/lib/budgets';
+
+interface ExpenseCategory {
+  id: string;
+  name: string;
+}
+
+const BUDGET_PERIOD_KINDS: PeriodKind[] = ['month', 'quarter'];
+
+const Budgets = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const { startMonth, years } = useFiscalYear();
+  const [periodSelection, setPeriodSelection] = useState<PeriodSelection>(defaultPeriodSelection());
+  const [selectedCurrency, setSelectedCurrency] = useState<Currency>('USD');
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+  const [view, setView] = useState('limits');
+  const [auditing, setAuditing] = useState<BudgetVariance[]>([]);
+
+  const [formData, setFormData] = useState({
+    category_id: '',
+    period: defaultPeriodSelection(),
+    amount: '',
+    currency: 'USD' as Currency,
+    notes: '',
+    alert_thresholds: formatAlertThresholds(DEFAULT_ALERT_THRESHOLDS),
+    rollover_policy: 'reset' as RolloverPolicy,
+    rollover_cap: '',
+  });
+
+  const period = resolvePeriod(periodSelection, startMonth);
+  const { variances, history, expenses, loading, refetch } = useBudgets(period.start, period.end, startMonth);
+  const {
+    alerts,
+    unreadCount,
+    loading: alertsLoading,
+    evaluate: evaluateAlerts,
+    clearForBudget,
+    markRead,
+    remove: removeAlert,
+  } = useBudgetAlerts(startMonth);
+
+  // Start on the current fiscal quarter once the user's fiscal year is known
+  useEffect(() => {
+    setPeriodSelection(defaultPeriodSelection(startMonth));
+  }, [startMonth]);
+
+  useEffect(() => {
+    if (user) {
+      fetchCategories();
+    }
+  }, [user]);
+
+  const rollup = useMemo(
+    () => rollupBudgets(variances, expenses, selectedCurrency, rates),
+    [variances, expenses, selectedCurrency, rates]
+  );
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('expense_categories')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingBudget(null);
+    setFormData({
+      category_id: '',
+      period: periodSelection.kind === 'month' || periodSelection.kind === 'quarter'
+        ? periodSelection
+        : defaultPeriodSelection(startMonth),
+      amount: '',
+      currency: selectedCurrency,
+      notes: '',
+      alert_thresholds: formatAlertThresholds(DEFAULT_ALERT_THRESHOLDS),
+      rollover_policy: 'reset',
+      rollover_cap: '',
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.category_id || !formData.amount) {
+      toast({
+        title: "Validation Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const amount = parseAmount(formData.amount, formData.currency);
+    if (amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Budget amount must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const alertThresholds = parseAlertThresholds(formData.alert_thresholds);
+    if (!alertThresholds) {
+      toast({
+        title: "Validation Error",
+        description: "Alert thresholds must be whole percentages, separated by commas",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const rolloverCap = formData.rollover_policy === 'capped'
+      ? parseAmount(formData.rollover_cap || '0', formData.currency)
+      : null;
+    if (formData.rollover_policy === 'capped' && (!formData.rollover_cap || (rolloverCap ?? 0) < 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Enter the most a capped rollover may carry",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const budgetData = {
+        user_id: user?.id,
+        category_id: formData.category_id,
+        period_type: formData.period.kind as BudgetPeriodType,
+        year: formData.period.year,
+        period_index: formData.period.index,
+        amount,
+        currency: formData.currency,
+        notes: formData.notes || null,
+        alert_thresholds: alertThresholds,
+        rollover_policy: formData.rollover_policy,
+        rollover_cap: rolloverCap,
+      };
+
+      if (editingBudget) {
+        const { error } = await supabase
+          .from('budgets')
+          .update(budgetData)
+          .eq('id', editingBudget.id);
+
+        if (error) throw error;
+
+        await clearForBudget(editingBudget.id);
+        toast({
+          title: "Success",
+          description: "Budget updated successfully",
+        });
+      } else {
+        const { error } = await supabase
+          .from('budgets')
+          .insert([budgetData]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Budget created successfully",
+        });
+      }
+
+      setIsDialogOpen(false);
+      resetForm();
+      refetch();
+      // A new or lowered budget may already be past its thresholds
+      checkBudgetAlerts(budgetData.category_id, budgetPeriod(budgetData, startMonth).start);
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      toast({
+        title: "Error",
+        // 23505: UNIQUE(user_id, category_id, period_type, year, period_index)
+        description: (error as { code?: string })?.code === '23505'
+          ? "This category already has a budget for that period"
+          : "Failed to save budget",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const checkBudgetAlerts = async (categoryId: string, date: string) => {
+    try {
+      const raised = await evaluateAlerts(categoryId, date);
+      if (raised.length > 0) {
+        toast({
+          title: "Budget Alert",
+          description: raisedAlertsMessage(raised),
+          variant: raised.some(({ threshold }) => threshold >= 100) ? "destructive" : "default",
+        });
+      }
+    } catch (error) {
+      console.error('Error checking budget alerts:', error);
+    }
+  };
+
+  const handleMarkAlertsRead = async (ids: string[]) => {
+    try {
+      await markRead(ids);
+    } catch (error) {
+      console.error('Error updating budget alerts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update alerts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveAlert = async (id: string) => {
+    try {
+      await removeAlert(id);
+    } catch (error) {
+      console.error('Error deleting budget alert:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete alert",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setEditingBudget(budget);
+    setFormData({
+      category_id: budget.category_id,
+      period: { ...periodSelection, kind: budget.period_type, year: budget.year, index: budget.period_index },
+      amount: budget.amount.toString(),
+      currency: budget.currency,
+      notes: budget.notes || '',
+      alert_thresholds: formatAlertThresholds(budget.alert_thresholds),
+      rollover_policy: budget.rollover_policy,
+      rollover_cap: budget.rollover_cap?.toString() || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Budget deleted successfully",
+      });
+      refetch();
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete budget",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusColor = (status: BudgetStatus) => {
+    const colors = {
+      under: 'bg-green-100 text-green-800',
+      near: 'bg-yellow-100 text-yellow-800',
+      over: 'bg-red-100 text-red-800',
+    };
+    return colors[status];
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Wallet className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-bold text-foreground">Budgets</h1>
+        </div>
+        <div className="flex items-center space-x-4">
+          <CurrencySelect value={selectedCurrency} onValueChange={(value) => setSelectedCurrency(value)} className="w-32" />
+          {view === 'limits' && (
+            <>
+              <PeriodPicker
+                value={periodSelection}
+                onChange={setPeriodSelection}
+                years={years}
+                startMonth={startMonth}
+                kinds={BUDGET_PERIOD_KINDS}
+              />
+              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button onClick={resetForm}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Budget
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingBudget ? 'Edit Budget' : 'Create New Budget'}
+                    </DialogTitle>
+                    <DialogDescription>
+                      Plan how much to spend in a category for a fiscal month or quarter
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="budget-category">Category *</Label>
+                      <Select value={formData.category_id} onValueChange={(value) => setFormData({...formData, category_id: value})}>
+                        <SelectTrigger id="budget-category">
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.map((category) => (
+                            <SelectItem key={category.id} value={category.id}>
+                              {category.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Period *</Label>
+                      <PeriodPicker
+                        value={formData.period}
+                        onChange={(value) => setFormData({...formData, period: value})}
+                        years={years}
+                        startMonth={startMonth}
+                        kinds={BUDGET_PERIOD_KINDS}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="budget-amount">Amount *</Label>
+                        <Input
+                          id="budget-amount"
+                          type="number"
+                          step={amountStep(formData.currency)}
+                          placeholder="0.00"
+                          value={formData.amount}
+                          onChange={(e) => setFormData({...formData, amount: e.target.value})}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="budget-currency">Currency</Label>
+                        <CurrencySelect
+                          id="budget-currency"
+                          value={formData.currency}
+                          onValueChange={(value) => setFormData({...formData, currency: value})}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="budget-thresholds">Alert thresholds (%)</Label>
+                      <Input
+                        id="budget-thresholds"
+                        placeholder="75, 90, 100"
+                        value={formData.alert_thresholds}
+                        onChange={(e) => setFormData({...formData, alert_thresholds: e.target.value})}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Alert when spending reaches these percentages of the budget. Leave empty for no alerts.
+                      </p>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="budget-rollover">Rollover</Label>
+                        <Select
+                          value={formData.rollover_policy}
+                          onValueChange={(value) => setFormData({...formData, rollover_policy: value as RolloverPolicy})}
+                        >
+                          <SelectTrigger id="budget-rollover">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLLOVER_POLICIES.map((policy) => (
+                              <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {formData.rollover_policy === 'capped' && (
+                        <div className="space-y-2">
+                          <Label htmlFor="budget-rollover-cap">Carry at most *</Label>
+                          <Input
+                            id="budget-rollover-cap"
+                            type="number"
+                            min="0"
+                            step={amountStep(formData.currency)}
+                            placeholder="0.00"
+                            value={formData.rollover_cap}
+                            onChange={(e) => setFormData({...formData, rollover_cap: e.target.value})}
+                            required
+                          />
+                        </div>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground -mt-2">
+                      {ROLLOVER_POLICIES.find((policy) => policy.value === formData.rollover_policy)?.description}, when the same
+                      category has a budget for the next {formData.period.kind === 'month' ? 'month' : 'quarter'}.
+                    </p>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="budget-notes">Notes</Label>
+                      <Textarea
+                        id="budget-notes"
+                        placeholder="Optional notes..."
+                        value={formData.notes}
+                        onChange={(e) => setFormData({...formData, notes: e.target.value})}
+                      />
+                    </div>
+
+                    <div className="flex justify-end space-x-2">
+                      <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit">
+                        {editingBudget ? 'Update' : 'Create'} Budget
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Tabs value={view} onValueChange={setView} className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="limits">Limits</TabsTrigger>
+          <TabsTrigger value="envelopes">Envelopes</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="limits" className="space-y-6">
+          {/* Rollup Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Planned</CardTitle>
+                <Target className="h-4 w-4 text-info" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-info">
+                  {formatMoney(rollup.planned)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {variances.length} budget(s) in {period.label}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Spent</CardTitle>
+                <TrendingDown className="h-4 w-4 text-destructive" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-destructive">
+                  {formatMoney(rollup.spent)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {rollup.planned.minor > 0
+                    ? `${(ratio(rollup.spent, rollup.planned) * 100).toFixed(1)}% of planned`
+                    : 'Nothing planned yet'}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Remaining</CardTitle>
+                <Wallet className="h-4 w-4 text-primary" />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${rollup.remaining.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+                  {formatMoney(rollup.remaining)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {rollup.overCount} over budget • {rollup.nearCount} nearly spent
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {rollup.unconverted > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {rollup.unconverted} budget(s) or expense(s) have no rate into {selectedCurrency} and are left out of the totals above.
+            </p>
+          )}
+
+          {/* Budget List */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Target className="mr-2 h-5 w-5" />
+                Category Budgets
+              </CardTitle>
+              <CardDescription>
+                Spending against plan for {period.label}, converted into each budget's currency at the expense date
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-center py-4">Loading...</p>
+              ) : variances.length === 0 ? (
+                <p className="text-center py-4 text-muted-foreground">
+                  No budgets for {period.label}. Add one to start tracking spending against plan.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {variances.map((variance) => (
+                    <div key={variance.budget.id} className="p-4 border rounded-lg space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{variance.budget.expense_categories.name}</span>
+                          <Badge variant="outline">{variance.period.label}</Badge>
+                          <Badge className={getStatusColor(variance.status)}>
+                            {BUDGET_STATUS_LABELS[variance.status]}
+                          </Badge>
+                        </div>
+                        <div className="flex space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setAuditing(rolloverHistory(variance.budget, history))}
+                            aria-label="Rollover history"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleEdit(variance.budget)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleDelete(variance.budget.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      <Progress value={Math.min(variance.percentUsed * 100, 100)} className="h-2" />
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          Spent {formatMoney(variance.spent)} of {formatMoney(variance.planned)} • {(variance.percentUsed * 100).toFixed(1)}% used
+                        </span>
+                        <span className={`font-medium ${variance.remaining.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+                          {variance.remaining.minor >= 0
+                            ? `${formatMoney(variance.remaining)} remaining`
+                            : `Over by ${formatMoney(negate(variance.remaining))}`}
+                        </span>
+                      </div>
+                      {variance.unconverted > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {variance.unconverted} expense(s) without a rate into {variance.budget.currency} are not counted.
+                        </p>
+                      )}
+                      {variance.carriedIn.minor !== 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatMoney(variance.base)} budgeted {variance.carriedIn.minor > 0 ? '+' : '−'} {formatMoney(variance.carriedIn.minor > 0 ? variance.carriedIn : negate(variance.carriedIn))} carried
+                          from the previous {variance.budget.period_type}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {rolloverPolicyLabel(variance.budget.rollover_policy)}
+                        {variance.carriedOut.minor !== 0 && ` • ${formatMoney(variance.carriedOut)} carries forward`}
+                        {' • '}
+                        {variance.budget.alert_thresholds.length > 0
+                          ? `Alerts at ${variance.budget.alert_thresholds.map((threshold) => `${threshold}%`).join(', ')}`
+                          : 'No alerts'}
+                      </p>
+                      {variance.budget.notes && (
+                        <p className="text-sm text-muted-foreground">{variance.budget.notes}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <BudgetAlertsList
+            alerts={alerts}
+            unreadCount={unreadCount}
+            loading={alertsLoading}
+            startMonth={startMonth}
+            onMarkRead={handleMarkAlertsRead}
+            onRemove={handleRemoveAlert}
+          />
+        </TabsContent>
+
+        <TabsContent value="envelopes">
+          <EnvelopesPanel currency={selectedCurrency} />
+        </TabsContent>
+      </Tabs>
+
+      <RolloverHistoryDialog chain={auditing} onOpenChange={(open) => !open && setAuditing([])} />
+    </div>
+  );
+};
+
+export default Budgets;
@@ -1,20 +1,63 @@
-import { useEffect, useState } from 'react';
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { useConsumerPriceIndex } from '@/hooks/useConsumerPriceIndex';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { useDashboardPreferences } from '@/hooks/useDashboardPreferences';
+import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, TrendingDown, PiggyBank, Target, DollarSign } from 'lucide-react';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { TrendingUp, TrendingDown, PiggyBank, Target, DollarSign, ArrowRightLeft, AlertTriangle, LayoutDashboard } from 'lucide-react';
+import CurrencySelect from '@/components/CurrencySelect';
+import RealTermsToggle from '@/components/RealTermsToggle';
+import PeriodPicker from '@/components/PeriodPicker';
+import TrendsSection from '@/components/dashboard/TrendsSection';
+import NeedsReviewPanel from '@/components/dashboard/NeedsReviewPanel';
+import CategoryBreakdownWidget from '@/components/dashboard/CategoryBreakdownWidget';
+import RecentTransactionsWidget from '@/components/dashboard/RecentTransactionsWidget';
+import BudgetRollupWidget from '@/components/dashboard/BudgetRollupWidget';
+import UnassignedWidget from '@/components/dashboard/UnassignedWidget';
+import RecurringDueAlert from '@/components/dashboard/RecurringDueAlert';
+import DashboardGrid from '@/components/dashboard/DashboardGrid';
+import DashboardCustomizer from '@/components/dashboard/DashboardCustomizer';
+import { Currency, RateHistory, formatCurrency } from '@/lib/currency';
+import { Money, add, convertMoney, formatMoney, money, ratio, subtract, sum, toAmount, zero } from '@/lib/money';
+import { exchangeFlows } from '@/lib/exchanges';
+import { RealTerms, inRealTerms } from '@/lib/inflation';
+import { PeriodSelection, defaultPeriodSelection, periodSearchParams, resolvePeriod } from '@/lib/periods';
+import { DatedAmount } from '@/lib/trends';
+import { DashboardPreferences, DashboardWidget, DashboardWidgetId } from '@/lib/dashboardLayout';
 
-type Quarter = 'Q1' | 'Q2' | 'Q3' | 'Q4';
-type Currency = 'USD' | 'GHS';
+interface CurrencyBreakdown {
+  currency: Currency;
+  income: Money;
+  expenses: Money;
+  // Net movement from currency exchanges: negative for currency sold
+  exchanged: Money;
+  balance: Money;
+  convertedIncome: Money;
+  convertedExpenses: Money;
+  convertedExchanged: Money;
+  // Records that could not be converted for lack of a rate
+  unconverted: number;
+}
 
 interface FinancialSummary {
-  totalIncome: number;
-  totalExpenses: number;
-  savings: number;
+  totalIncome: Money;
+  totalExpenses: Money;
+  savings: Money;
   currency: Currency;
+  breakdown: CurrencyBreakdown[];
+  missingRates: Currency[];
+  // Records converted with a rate dated after them (see RateFallback)
+  fallbackConversions: number;
+  // Converted records with no CPI for their month, left in nominal terms
+  undeflated: number;
 }
 
 interface SavingsGoal {
@@ -26,188 +69,406 @@ interface SavingsGoal {
   currency: Currency;
 }
 
+const summarizeByCurrency = (
+  incomeRecords: DatedAmount[],
+  expenseRecords: DatedAmount[],
+  exchangeMovements: DatedAmount[],
+  target: Currency,
+  rates: RateHistory,
+  realTerms?: RealTerms
+): FinancialSummary => {
+  const rows = new Map<Currency, CurrencyBreakdown>();
+  let fallbackConversions = 0;
+  let undeflated = 0;
+
+  const convertedKey = {
+    income: 'convertedIncome',
+    expenses: 'convertedExpenses',
+    exchanged: 'convertedExchanged',
+  } as const;
+
+  const addRecord = (record: DatedAmount, kind: 'income' | 'expenses' | 'exchanged') => {
+    const row = rows.get(record.currency) || {
+      currency: record.currency,
+      income: zero(record.currency),
+      expenses: zero(record.currency),
+      exchanged: zero(record.currency),
+      balance: zero(record.currency),
+      convertedIncome: zero(target),
+      convertedExpenses: zero(target),
+      convertedExchanged: zero(target),
+      unconverted: 0,
+    };
+    const amount = money(record.amount, record.currency);
+    const converted = convertMoney(amount, target, record.date, rates);
+
+    row[kind] = add(row[kind], amount);
+    row.balance = add(subtract(row.income, row.expenses), row.exchanged);
+    if (converted) {
+      // Deflate with the reporting currency's CPI, after conversion at the record's date
+      const value = inRealTerms(converted.money, record.date, realTerms);
+      if (value.nominal) undeflated += 1;
+      row[convertedKey[kind]] = add(row[convertedKey[kind]], value.money);
+      if (converted.isFallback) fallbackConversions += 1;
+    } else {
+      row.unconverted += 1;
+    }
+    rows.set(record.currency, row);
+  };
+
+  incomeRecords.forEach((record) => addRecord(record, 'income'));
+  expenseRecords.forEach((record) => addRecord(record, 'expenses'));
+  exchangeMovements.forEach((record) => addRecord(record, 'exchanged'));
+
+  const breakdown = Array.from(rows.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+
+  // Records without a usable rate are left out of the totals and reported separately
+  const missingRates = breakdown.filter((row) => row.unconverted > 0).map((row) => row.currency);
+
+  const totalIncome = sum(breakdown.map((row) => row.convertedIncome), target);
+  const totalExpenses = sum(breakdown.map((row) => row.convertedExpenses), target);
+
+  return {
+    totalIncome,
+    totalExpenses,
+    savings: subtract(totalIncome, totalExpenses),
+    currency: target,
+    breakdown,
+    missingRates,
+    fallbackConversions,
+    undeflated,
+  };
+};
+
 const Dashboard = () => {
   const { user } = useAuth();
-  const [selectedQuarter, setSelectedQuarter] = useState<Quarter>('Q1');
-  const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+  const { rates } = useCurrencyRates();
+  const { series: cpi } = useConsumerPriceIndex();
+  const { startMonth, years } = useFiscalYear();
+  const { preferences, loading: preferencesLoading, savePreferences } = useDashboardPreferences();
+  const { toast } = useToast();
+  const [periodSelection, setPeriodSelection] = useState<PeriodSelection>(defaultPeriodSelection());
   const [selectedCurrency, setSelectedCurrency] = useState<Currency>('USD');
-  const [financialSummary, setFinancialSummary] = useState<FinancialSummary>({
-    totalIncome: 0,
-    totalExpenses: 0,
-    savings: 0,
-    currency: 'USD'
-  });
+  const [realTermsEnabled, setRealTermsEnabled] = useState(false);
+  const [baseMonth, setBaseMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [incomeRecords, setIncomeRecords] = useState<DatedAmount[]>([]);
+  const [expenseRecords, setExpenseRecords] = useState<DatedAmount[]>([]);
+  const [exchangeMovements, setExchangeMovements] = useState<DatedAmount[]>([]);
   const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>([]);
   const [loading, setLoading] = useState(true);
+  // The layout being edited; null when not customizing
+  const [draft, setDraft] = useState<DashboardPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const period = resolvePeriod(periodSelection, startMonth);
+
+  // Start on the user's default period once their fiscal year and preferences are known
+  useEffect(() => {
+    setPeriodSelection(defaultPeriodSelection(startMonth, new Date(), preferences.defaultPeriodKind));
+  }, [startMonth, preferences.defaultPeriodKind]);
+
+  useEffect(() => {
+    setSelectedCurrency(preferences.defaultCurrency);
+  }, [preferences.defaultCurrency]);
 
   useEffect(() => {
     if (user) {
       fetchDashboardData();
     }
-  }, [user, selectedQuarter, selectedYear, selectedCurrency]);
+  }, [user, period.start, period.end]);
+
+  const realTerms = useMemo<RealTerms | undefined>(
+    () => (realTermsEnabled ? { baseMonth: `${baseMonth}-01`, cpi } : undefined),
+    [realTermsEnabled, baseMonth, cpi]
+  );
+  // Conversion happens client-side, so switching the reporting currency doesn't refetch
+  const financialSummary = useMemo(
+    () => summarizeByCurrency(incomeRecords, expenseRecords, exchangeMovements, selectedCurrency, rates, realTerms),
+    [incomeRecords, expenseRecords, exchangeMovements, selectedCurrency, rates, realTerms]
+  );
+  const hasCpi = cpi.has(selectedCurrency);
+  const periodLabel = realTermsEnabled && hasCpi
+    ? `${period.label}, in ${baseMonth} prices`
+    : period.label;
 
   const fetchDashboardData = async () => {
     setLoading(true);
     try {
-      // Fetch income data
-      const { data: incomeData } = await supabase
+      // Fetch income data in every currency; totals are converted per record
+      const { data: incomeData, error: incomeError } = await supabase
         .from('income_records')
-        .select('amount')
+        .select('amount, currency, income_date')
         .eq('user_id', user?.id)
-        .eq('quarter', selectedQuarter)
-        .eq('year', selectedYear)
-        .eq('currency', selectedCurrency);
+        .gte('income_date', period.start)
+        .lte('income_date', period.end);
+
+      if (incomeError) throw incomeError;
 
-      // Fetch expense data
-      const { data: expenseData } = await supabase
+      // Fetch expense data in every currency
+      const { data: expenseData, error: expenseError } = await supabase
         .from('expense_records')
-        .select('amount')
+        .select('amount, currency, expense_date')
         .eq('user_id', user?.id)
-        .eq('quarter', selectedQuarter)
-        .eq('year', selectedYear)
-        .eq('currency', selectedCurrency);
+        .gte('expense_date', period.start)
+        .lte('expense_date', period.end);
+
+      if (expenseError) throw expenseError;
+
+      // Fetch currency exchanges dated inside the period
+      const { data: exchangeData, error: exchangeError } = await supabase
+        .from('currency_exchanges')
+        .select('*')
+        .eq('user_id', user?.id)
+        .gte('exchange_date', period.start)
+        .lte('exchange_date', period.end);
+
+      if (exchangeError) throw exchangeError;
 
       // Fetch savings goals
-      const { data: goalsData } = await supabase
+      const { data: goalsData, error: goalsError } = await supabase
         .from('savings_goals')
         .select('*')
         .eq('user_id', user?.id)
-        .eq('is_active', true)
-        .eq('currency', selectedCurrency);
-
-      const totalIncome = incomeData?.reduce((sum, record) => sum + Number(record.amount), 0) || 0;
-      const totalExpenses = expenseData?.reduce((sum, record) => sum + Number(record.amount), 0) || 0;
-      const savings = totalIncome - totalExpenses;
-
-      setFinancialSummary({
-        totalIncome,
-        totalExpenses,
-        savings,
-        currency: selectedCurrency
-      });
+        .eq('is_active', true);
+
+      if (goalsError) throw goalsError;
 
+      setIncomeRecords((incomeData || []).map((record) => ({
+        amount: record.amount,
+        currency: record.currency,
+        date: record.income_date,
+      })));
+      setExpenseRecords((expenseData || []).map((record) => ({
+        amount: record.amount,
+        currency: record.currency,
+        date: record.expense_date,
+      })));
+      setExchangeMovements((exchangeData || []).flatMap((exchange) =>
+        exchangeFlows(exchange).map((flow) => ({
+          amount: toAmount(flow),
+          currency: flow.currency,
+          date: exchange.exchange_date,
+        }))
+      ));
       setSavingsGoals(goalsData || []);
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch dashboard data",
+        variant: "destructive",
+      });
     } finally {
       setLoading(false);
     }
   };
 
-  const formatCurrency = (amount: number, currency: Currency) => {
-    const symbol = currency === 'USD' ? '$' : '₵';
-    return `${symbol}${amount.toLocaleString()}`;
-  };
-
   const getGoalProgress = (current: number, target: number) => {
     return Math.min((current / target) * 100, 100);
   };
 
-  return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
-        <div className="flex space-x-4">
-          <Select value={selectedCurrency} onValueChange={(value: Currency) => setSelectedCurrency(value)}>
-            <SelectTrigger className="w-32">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="USD">USD ($)</SelectItem>
-              <SelectItem value="GHS">GHS (₵)</SelectItem>
-            </SelectContent>
-          </Select>
-          <Select value={selectedQuarter} onValueChange={(value: Quarter) => setSelectedQuarter(value)}>
-            <SelectTrigger className="w-32">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="Q1">Q1</SelectItem>
-              <SelectItem value="Q2">Q2</SelectItem>
-              <SelectItem value="Q3">Q3</SelectItem>
-              <SelectItem value="Q4">Q4</SelectItem>
-            </SelectContent>
-          </Select>
-          <Select value={selectedYear.toString()} onValueChange={(value) => setSelectedYear(parseInt(value))}>
-            <SelectTrigger className="w-32">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="2024">2024</SelectItem>
-              <SelectItem value="2025">2025</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-      </div>
+  const handleResize = (sizes: DashboardWidget[]) => {
+    setDraft((current) => current && {
+      ...current,
+      widgets: current.widgets.map((widget) => sizes.find((resized) => resized.id === widget.id) || widget),
+    });
+  };
 
-      {/* Financial Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Income</CardTitle>
-            <TrendingUp className="h-4 w-4 text-success" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-success">
-              {formatCurrency(financialSummary.totalIncome, selectedCurrency)}
-            </div>
-            <p className="text-xs text-muted-foreground">
-              {selectedQuarter} {selectedYear}
-            </p>
-          </CardContent>
-        </Card>
+  const handleSaveLayout = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await savePreferences(draft);
+      toast({
+        title: "Success",
+        description: "Dashboard layout saved successfully",
+      });
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving dashboard layout:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save dashboard layout",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Shown in the widgets fed by this page's own fetch
+  const loadingState = <p className="text-center py-4">Loading...</p>;
 
-        <Card>
+  const widgets: Record<DashboardWidgetId, ReactNode> = {
+    income: (
+      <Card className="h-full">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Total Income</CardTitle>
+          <TrendingUp className="h-4 w-4 text-success" />
+        </CardHeader>
+        <CardContent>
+          {loading ? loadingState : (
+            <>
+              <div className="text-2xl font-bold text-success">
+                {formatMoney(financialSummary.totalIncome)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {periodLabel}
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    ),
+    expenses: (
+      <Link className="block h-full" to={`/reports?tab=categories&${periodSearchParams(periodSelection)}&currency=${selectedCurrency}`}>
+        <Card className="h-full transition-colors hover:bg-muted/50">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Expenses</CardTitle>
             <TrendingDown className="h-4 w-4 text-destructive" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-destructive">
-              {formatCurrency(financialSummary.totalExpenses, selectedCurrency)}
-            </div>
-            <p className="text-xs text-muted-foreground">
-              {selectedQuarter} {selectedYear}
-            </p>
+            {loading ? loadingState : (
+              <>
+                <div className="text-2xl font-bold text-destructive">
+                  {formatMoney(financialSummary.totalExpenses)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {periodLabel} • View by category
+                </p>
+              </>
+            )}
           </CardContent>
         </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Net Savings</CardTitle>
-            <PiggyBank className="h-4 w-4 text-primary" />
-          </CardHeader>
-          <CardContent>
-            <div className={`text-2xl font-bold ${financialSummary.savings >= 0 ? 'text-success' : 'text-destructive'}`}>
-              {formatCurrency(financialSummary.savings, selectedCurrency)}
-            </div>
-            <p className="text-xs text-muted-foreground">
-              Income - Expenses
+      </Link>
+    ),
+    'net-savings': (
+      <Card className="h-full">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Net Savings</CardTitle>
+          <PiggyBank className="h-4 w-4 text-primary" />
+        </CardHeader>
+        <CardContent>
+          {loading ? loadingState : (
+            <>
+              <div className={`text-2xl font-bold ${financialSummary.savings.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+                {formatMoney(financialSummary.savings)}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Income - Expenses
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    ),
+    'savings-rate': (
+      <Card className="h-full">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Savings Rate</CardTitle>
+          <Target className="h-4 w-4 text-info" />
+        </CardHeader>
+        <CardContent>
+          {loading ? loadingState : (
+            <>
+              <div className="text-2xl font-bold text-info">
+                {financialSummary.totalIncome.minor > 0 
+                  ? `${(ratio(financialSummary.savings, financialSummary.totalIncome) * 100).toFixed(1)}%`
+                  : '0%'
+                }
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Of total income
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    ),
+    'needs-review': <NeedsReviewPanel startMonth={startMonth} />,
+    trends: (
+      <TrendsSection currency={selectedCurrency} rates={rates} startMonth={startMonth} anchor={period.end} realTerms={realTerms} />
+    ),
+    'category-breakdown': (
+      <CategoryBreakdownWidget
+        period={period}
+        periodSelection={periodSelection}
+        currency={selectedCurrency}
+        rates={rates}
+        realTerms={realTerms}
+      />
+    ),
+    'recent-transactions': <RecentTransactionsWidget />,
+    budgets: (
+      <BudgetRollupWidget period={period} currency={selectedCurrency} rates={rates} startMonth={startMonth} />
+    ),
+    unassigned: <UnassignedWidget currency={selectedCurrency} />,
+    'currency-breakdown': (
+      <Card className="h-full">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ArrowRightLeft className="mr-2 h-5 w-5" />
+            Currency Breakdown
+          </CardTitle>
+          <CardDescription>
+            Original amounts per currency and their value in {selectedCurrency} at each record's date
+            {realTermsEnabled && hasCpi && `, restated in ${baseMonth} prices`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            loadingState
+          ) : financialSummary.breakdown.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              No income, expenses or exchanges recorded for {period.label}.
             </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Savings Rate</CardTitle>
-            <Target className="h-4 w-4 text-info" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-info">
-              {financialSummary.totalIncome > 0 
-                ? `${((financialSummary.savings / financialSummary.totalIncome) * 100).toFixed(1)}%`
-                : '0%'
-              }
+          ) : (
+            <div className="space-y-4">
+              {financialSummary.breakdown.map((row) => (
+                <div key={row.currency} className="grid grid-cols-5 items-center gap-4 p-3 border rounded-lg">
+                  <Badge variant="outline" className="w-fit">{row.currency}</Badge>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Income</p>
+                    <p className="font-medium text-success">{formatMoney(row.income)}</p>
+                    {row.currency !== selectedCurrency && (
+                      <p className="text-xs text-muted-foreground">
+                        ≈ {formatMoney(row.convertedIncome)}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Expenses</p>
+                    <p className="font-medium text-destructive">{formatMoney(row.expenses)}</p>
+                    {row.currency !== selectedCurrency && (
+                      <p className="text-xs text-muted-foreground">
+                        ≈ {formatMoney(row.convertedExpenses)}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Exchanged</p>
+                    <p className="font-medium">{formatMoney(row.exchanged)}</p>
+                    {row.currency !== selectedCurrency && (
+                      <p className="text-xs text-muted-foreground">
+                        ≈ {formatMoney(row.convertedExchanged)}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Balance</p>
+                    <p className={`font-medium ${row.balance.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+                      {formatMoney(row.balance)}
+                    </p>
+                  </div>
+                </div>
+              ))}
             </div>
-            <p className="text-xs text-muted-foreground">
-              Of total income
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Savings Goals */}
-      <Card>
+          )}
+        </CardContent>
+      </Card>
+    ),
+    'savings-goals': (
+      <Card className="h-full">
         <CardHeader>
           <CardTitle className="flex items-center">
             <PiggyBank className="mr-2 h-5 w-5" />
@@ -218,7 +479,9 @@ const Dashboard = () => {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {savingsGoals.length === 0 ? (
+          {loading ? (
+            loadingState
+          ) : savingsGoals.length === 0 ? (
             <p className="text-muted-foreground text-center py-4">
               No active savings goals. Create your first goal to start tracking!
             </p>
@@ -250,6 +513,91 @@ const Dashboard = () => {
           )}
         </CardContent>
       </Card>
+    ),
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Dashboard</h1>
+        <div className="flex items-center space-x-4">
+          <RealTermsToggle
+            enabled={realTermsEnabled}
+            onEnabledChange={setRealTermsEnabled}
+            baseMonth={baseMonth}
+            onBaseMonthChange={setBaseMonth}
+          />
+          <CurrencySelect value={selectedCurrency} onValueChange={(value) => setSelectedCurrency(value)} className="w-32" />
+          <PeriodPicker value={periodSelection} onChange={setPeriodSelection} years={years} startMonth={startMonth} />
+          <Button variant="outline" onClick={() => setDraft(preferences)} disabled={!!draft || preferencesLoading}>
+            <LayoutDashboard className="mr-2 h-4 w-4" />
+            Customize
+          </Button>
+        </div>
+      </div>
+
+      <RecurringDueAlert startMonth={startMonth} />
+
+      {financialSummary.missingRates.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Missing exchange rates</AlertTitle>
+          <AlertDescription>
+            No rate to convert {financialSummary.missingRates.join(', ')} into {selectedCurrency}. Those amounts are excluded from the totals below.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {realTermsEnabled && !hasCpi && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>No price index for {selectedCurrency}</AlertTitle>
+          <AlertDescription>
+            Amounts are shown in nominal terms. An admin can add {selectedCurrency} consumer price index values, or choose a reporting currency that has them.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {realTermsEnabled && hasCpi && financialSummary.undeflated > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Incomplete price index</AlertTitle>
+          <AlertDescription>
+            {financialSummary.undeflated} record(s) fall outside the {selectedCurrency} index history, or the base month does, and are included in nominal terms.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {financialSummary.fallbackConversions > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Approximate conversion</AlertTitle>
+          <AlertDescription>
+            {financialSummary.fallbackConversions} record(s) predate the first recorded exchange rate and were converted with the earliest available rate.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {draft && (
+        <DashboardCustomizer
+          draft={draft}
+          onChange={setDraft}
+          onSave={handleSaveLayout}
+          onCancel={() => setDraft(null)}
+          saving={saving}
+        />
+      )}
+
+      {preferencesLoading ? (
+        <p className="text-center py-4">Loading...</p>
+      ) : (
+        <DashboardGrid
+          widgets={(draft || preferences).widgets}
+          renderWidget={(id) => widgets[id]}
+          editing={!!draft}
+          onResize={handleResize}
+        />
+      )}
     </div>
   );
 };
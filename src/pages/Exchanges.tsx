@@ -0,0 +1,446 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2, ArrowRightLeft } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency, formatCurrency } from '@/lib/currency';
+import { amountStep, convertMoney, formatMoney, parseAmount, sum } from '@/lib/money';
+import { CurrencyExchange, analyzeExchange } from '@/lib/exchanges';
+
+const emptyForm = () => ({
+  exchange_date: new Date().toISOString().split('T')[0],
+  from_amount: '',
+  from_currency: 'USD' as Currency,
+  to_amount: '',
+  to_currency: 'GHS' as Currency,
+  provider: '',
+  fee_amount: '',
+  fee_currency: 'USD' as Currency,
+  description: '',
+});
+
+const Exchanges = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const [exchanges, setExchanges] = useState<CurrencyExchange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingExchange, setEditingExchange] = useState<CurrencyExchange | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState<Currency>('USD');
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    if (user) {
+      fetchExchanges();
+    }
+  }, [user]);
+
+  const fetchExchanges = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('currency_exchanges')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('exchange_date', { ascending: false });
+
+      if (error) throw error;
+      setExchanges(data || []);
+    } catch (error) {
+      console.error('Error fetching currency exchanges:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch currency exchanges",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.from_amount || !formData.to_amount || formData.from_currency === formData.to_currency) {
+      toast({
+        title: "Validation Error",
+        description: "Enter both amounts in two different currencies",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const exchangeData = {
+        user_id: user?.id,
+        exchange_date: formData.exchange_date,
+        from_amount: parseAmount(formData.from_amount, formData.from_currency),
+        from_currency: formData.from_currency,
+        to_amount: parseAmount(formData.to_amount, formData.to_currency),
+        to_currency: formData.to_currency,
+        provider: formData.provider || null,
+        fee_amount: formData.fee_amount ? parseAmount(formData.fee_amount, formData.fee_currency) : 0,
+        fee_currency: formData.fee_currency,
+        description: formData.description,
+      };
+
+      if (editingExchange) {
+        const { error } = await supabase
+          .from('currency_exchanges')
+          .update(exchangeData)
+          .eq('id', editingExchange.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Currency exchange updated successfully",
+        });
+      } else {
+        const { error } = await supabase
+          .from('currency_exchanges')
+          .insert([exchangeData]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Currency exchange added successfully",
+        });
+      }
+
+      setIsDialogOpen(false);
+      setEditingExchange(null);
+      setFormData(emptyForm());
+      fetchExchanges();
+    } catch (error) {
+      console.error('Error saving currency exchange:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save currency exchange",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (exchange: CurrencyExchange) => {
+    setEditingExchange(exchange);
+    setFormData({
+      exchange_date: exchange.exchange_date,
+      from_amount: exchange.from_amount.toString(),
+      from_currency: exchange.from_currency,
+      to_amount: exchange.to_amount.toString(),
+      to_currency: exchange.to_currency,
+      provider: exchange.provider || '',
+      fee_amount: Number(exchange.fee_amount) > 0 ? exchange.fee_amount.toString() : '',
+      fee_currency: exchange.fee_currency || exchange.from_currency,
+      description: exchange.description || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('currency_exchanges')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Currency exchange deleted successfully",
+      });
+      fetchExchanges();
+    } catch (error) {
+      console.error('Error deleting currency exchange:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete currency exchange",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const analyses = exchanges.map((exchange) => ({ exchange, analysis: analyzeExchange(exchange, rates) }));
+
+  // Realized results are in each exchange's to_currency; bring them into the reporting currency on their own date
+  const totalRealized = sum(
+    analyses
+      .map(({ exchange, analysis }) => analysis.realized
+        && convertMoney(analysis.realized, reportingCurrency, exchange.exchange_date, rates)?.money)
+      .filter(Boolean),
+    reportingCurrency
+  );
+  const spreads = analyses.map(({ analysis }) => analysis.spread).filter((spread) => spread !== null);
+  const averageSpread = spreads.length > 0 ? spreads.reduce((acc, spread) => acc + spread, 0) / spreads.length : null;
+  const unanalyzed = analyses.filter(({ analysis }) => analysis.realized === null).length;
+
+  const previewRate = parseFloat(formData.to_amount) / parseFloat(formData.from_amount);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ArrowRightLeft className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-bold text-foreground">Currency Exchanges</h1>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => {
+              setEditingExchange(null);
+              setFormData(emptyForm());
+            }}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Exchange
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingExchange ? 'Edit Currency Exchange' : 'Add Currency Exchange'}
+              </DialogTitle>
+              <DialogDescription>
+                Record money changed at a bank, forex bureau or mobile money provider
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="from-amount">Amount Sold *</Label>
+                  <Input
+                    id="from-amount"
+                    type="number"
+                    step={amountStep(formData.from_currency)}
+                    placeholder="0.00"
+                    value={formData.from_amount}
+                    onChange={(e) => setFormData({...formData, from_amount: e.target.value})}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="from-currency">Sold Currency</Label>
+                  <CurrencySelect id="from-currency" value={formData.from_currency} onValueChange={(value) => setFormData({...formData, from_currency: value})} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="to-amount">Amount Received *</Label>
+                  <Input
+                    id="to-amount"
+                    type="number"
+                    step={amountStep(formData.to_currency)}
+                    placeholder="0.00"
+                    value={formData.to_amount}
+                    onChange={(e) => setFormData({...formData, to_amount: e.target.value})}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="to-currency">Received Currency</Label>
+                  <CurrencySelect id="to-currency" value={formData.to_currency} onValueChange={(value) => setFormData({...formData, to_currency: value})} />
+                </div>
+              </div>
+
+              {Number.isFinite(previewRate) && previewRate > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Effective rate: 1 {formData.from_currency} = {previewRate.toFixed(4)} {formData.to_currency}
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="fee-amount">Fees</Label>
+                  <Input
+                    id="fee-amount"
+                    type="number"
+                    step={amountStep(formData.fee_currency)}
+                    placeholder="0.00"
+                    value={formData.fee_amount}
+                    onChange={(e) => setFormData({...formData, fee_amount: e.target.value})}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fee-currency">Fee Currency</Label>
+                  <CurrencySelect id="fee-currency" value={formData.fee_currency} onValueChange={(value) => setFormData({...formData, fee_currency: value})} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="provider">Provider</Label>
+                  <Input
+                    id="provider"
+                    placeholder="e.g., Forex bureau, bank, MoMo"
+                    value={formData.provider}
+                    onChange={(e) => setFormData({...formData, provider: e.target.value})}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="exchange-date">Date</Label>
+                  <Input
+                    id="exchange-date"
+                    type="date"
+                    value={formData.exchange_date}
+                    onChange={(e) => setFormData({...formData, exchange_date: e.target.value})}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  placeholder="Additional details about this exchange..."
+                  value={formData.description}
+                  onChange={(e) => setFormData({...formData, description: e.target.value})}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingExchange ? 'Update' : 'Add'} Exchange
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Exchange Report */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Realized FX Gain/Loss</CardTitle>
+            <CurrencySelect value={reportingCurrency} onValueChange={setReportingCurrency} className="w-28 h-8" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${totalRealized.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+              {formatMoney(totalRealized)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Versus the mid rate, after fees
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Average Spread Paid</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-info">
+              {averageSpread === null ? '—' : `${(averageSpread * 100).toFixed(2)}%`}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Below the mid rate, before fees
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Exchanges</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{exchanges.length}</div>
+            <p className="text-xs text-muted-foreground">
+              {unanalyzed > 0 ? `${unanalyzed} without a mid rate for their date` : 'All compared with the mid rate'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exchange Records</CardTitle>
+          <CardDescription>
+            Each exchange compared with the currency_rates mid rate on its date
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-center py-4">Loading...</p>
+          ) : exchanges.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              No currency exchanges found. Record your first exchange to see the spread you paid!
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {analyses.map(({ exchange, analysis }) => (
+                <div
+                  key={exchange.id}
+                  className="flex items-center justify-between p-4 border rounded-lg"
+                >
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">
+                        {formatCurrency(Number(exchange.from_amount), exchange.from_currency)} → {formatCurrency(Number(exchange.to_amount), exchange.to_currency)}
+                      </p>
+                      {exchange.provider && <Badge variant="outline">{exchange.provider}</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(exchange.exchange_date).toLocaleDateString()} • Rate {analysis.effectiveRate.toFixed(4)}
+                      {analysis.midRate !== null && ` vs mid ${analysis.midRate.toFixed(4)}`}
+                      {Number(exchange.fee_amount) > 0 && ` • Fees ${formatCurrency(Number(exchange.fee_amount), exchange.fee_currency || exchange.from_currency)}`}
+                    </p>
+                    {exchange.description && (
+                      <p className="text-sm text-muted-foreground">{exchange.description}</p>
+                    )}
+                  </div>
+                  <div className="text-right mr-4">
+                    {analysis.realized ? (
+                      <>
+                        <p className={`font-bold ${analysis.realized.minor >= 0 ? 'text-success' : 'text-destructive'}`}>
+                          {formatMoney(analysis.realized)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Spread {((analysis.spread || 0) * 100).toFixed(2)}%
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">No mid rate</p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(exchange)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(exchange.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Exchanges;
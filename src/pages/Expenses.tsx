@@ -1,18 +1,29 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { usePeriodLocks } from '@/hooks/usePeriodLocks';
+import { useSpendingFlags } from '@/hooks/useSpendingFlags';
+import { useBudgetAlerts } from '@/hooks/useBudgetAlerts';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Plus, Edit, Trash2, TrendingDown } from 'lucide-react';
+import { Plus, Edit, Trash2, TrendingDown, Lock, AlertTriangle, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-
-type Quarter = 'Q1' | 'Q2' | 'Q3' | 'Q4';
-type Currency = 'USD' | 'GHS';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency, Quarter, formatCurrency } from '@/lib/currency';
+import { amountStep, convertMoney, formatMoney, money, parseAmount, sum } from '@/lib/money';
+import { fiscalQuarterLabel, quarterOf } from '@/lib/periods';
+import { isPeriodLockedError } from '@/lib/periodLocks';
+import { SPENDING_FLAG_LABELS, SpendingFlag } from '@/lib/spendingFlags';
+import { BUDGET_COLUMNS, Budget, projectExpense, raisedAlertsMessage } from '@/lib/budgets';
 
 interface ExpenseCategory {
   id: string;
@@ -37,16 +48,21 @@ interface ExpenseRecord {
 const Expenses = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const { startMonth } = useFiscalYear();
+  const { isLocked } = usePeriodLocks(startMonth);
+  const { flagsForExpense, dismiss: dismissFlag, refetch: refetchFlags } = useSpendingFlags(startMonth);
+  const { evaluate: evaluateBudgetAlerts } = useBudgetAlerts(startMonth);
   const [expenseRecords, setExpenseRecords] = useState<ExpenseRecord[]>([]);
   const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRecord, setEditingRecord] = useState<ExpenseRecord | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState<Currency>('USD');
 
   const [formData, setFormData] = useState({
     category_id: '',
-    quarter: 'Q1' as Quarter,
-    year: new Date().getFullYear(),
     amount: '',
     currency: 'USD' as Currency,
     description: '',
@@ -57,6 +73,7 @@ const Expenses = () => {
     if (user) {
       fetchCategories();
       fetchExpenseRecords();
+      fetchBudgets();
     }
   }, [user]);
 
@@ -74,6 +91,21 @@ const Expenses = () => {
     }
   };
 
+  // All budgets, so the form can warn before an expense takes one over its limit
+  const fetchBudgets = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('budgets')
+        .select(BUDGET_COLUMNS)
+        .eq('user_id', user?.id);
+
+      if (error) throw error;
+      setBudgets((data || []) as Budget[]);
+    } catch (error) {
+      console.error('Error fetching budgets:', error);
+    }
+  };
+
   const fetchExpenseRecords = async () => {
     setLoading(true);
     try {
@@ -86,7 +118,7 @@ const Expenses = () => {
           )
         `)
         .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
+        .order('expense_date', { ascending: false });
 
       if (error) throw error;
       setExpenseRecords(data || []);
@@ -105,7 +137,7 @@ const Expenses = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.amount || !formData.category_id) {
+    if (!formData.amount || !formData.category_id || !formData.expense_date) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields",
@@ -114,18 +146,28 @@ const Expenses = () => {
       return;
     }
 
+    if (isLocked(formData.expense_date)) {
+      toast({
+        title: "Validation Error",
+        description: `${fiscalQuarterLabel(quarterOf(formData.expense_date, startMonth))} is locked`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       const recordData = {
         user_id: user?.id,
         category_id: formData.category_id,
-        quarter: formData.quarter,
-        year: formData.year,
-        amount: parseFloat(formData.amount),
+        // Also derived by a database trigger; sent so the row is complete as typed
+        ...quarterOf(formData.expense_date, startMonth),
+        amount: parseAmount(formData.amount, formData.currency),
         currency: formData.currency,
         description: formData.description,
         expense_date: formData.expense_date,
       };
 
+      let savedId = editingRecord?.id;
       if (editingRecord) {
         const { error } = await supabase
           .from('expense_records')
@@ -139,11 +181,14 @@ const Expenses = () => {
           description: "Expense record updated successfully",
         });
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('expense_records')
-          .insert([recordData]);
+          .insert([recordData])
+          .select('id')
+          .single();
 
         if (error) throw error;
+        savedId = data.id;
 
         toast({
           title: "Success",
@@ -155,30 +200,46 @@ const Expenses = () => {
       setEditingRecord(null);
       setFormData({
         category_id: '',
-        quarter: 'Q1',
-        year: new Date().getFullYear(),
         amount: '',
         currency: 'USD',
         description: '',
         expense_date: new Date().toISOString().split('T')[0],
       });
       fetchExpenseRecords();
+      refetchFlags();
+      checkBudgetAlerts(recordData.category_id, recordData.expense_date, savedId);
     } catch (error) {
       console.error('Error saving expense record:', error);
       toast({
         title: "Error",
-        description: "Failed to save expense record",
+        description: isPeriodLockedError(error)
+          ? "This period is locked. Reopen it in Settings to make changes"
+          : "Failed to save expense record",
         variant: "destructive",
       });
     }
   };
 
+  // Runs after the save has succeeded, so a failure here only loses the alert
+  const checkBudgetAlerts = async (categoryId: string, date: string, expenseId?: string) => {
+    try {
+      const raised = await evaluateBudgetAlerts(categoryId, date, expenseId);
+      if (raised.length > 0) {
+        toast({
+          title: "Budget Alert",
+          description: raisedAlertsMessage(raised),
+          variant: raised.some(({ threshold }) => threshold >= 100) ? "destructive" : "default",
+        });
+      }
+    } catch (error) {
+      console.error('Error checking budget alerts:', error);
+    }
+  };
+
   const handleEdit = (record: ExpenseRecord) => {
     setEditingRecord(record);
     setFormData({
       category_id: record.category_id,
-      quarter: record.quarter,
-      year: record.year,
       amount: record.amount.toString(),
       currency: record.currency,
       description: record.description,
@@ -201,19 +262,66 @@ const Expenses = () => {
         description: "Expense record deleted successfully",
       });
       fetchExpenseRecords();
+      refetchFlags();
     } catch (error) {
       console.error('Error deleting expense record:', error);
       toast({
         title: "Error",
-        description: "Failed to delete expense record",
+        description: isPeriodLockedError(error)
+          ? "This period is locked. Reopen it in Settings to make changes"
+          : "Failed to delete expense record",
         variant: "destructive",
       });
     }
   };
 
-  const formatCurrency = (amount: number, currency: Currency) => {
-    const symbol = currency === 'USD' ? '$' : '₵';
-    return `${symbol}${amount.toLocaleString()}`;
+  const handleDismissFlag = async (flag: SpendingFlag) => {
+    try {
+      await dismissFlag(flag);
+    } catch (error) {
+      console.error('Error dismissing spending flag:', error);
+      toast({
+        title: "Error",
+        description: "Failed to dismiss flag",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Each record is converted at the rate in effect on its own date
+  const convertRecord = (record: ExpenseRecord) =>
+    convertMoney(money(record.amount, record.currency), reportingCurrency, record.expense_date, rates);
+
+  const convertedTotal = sum(
+    expenseRecords.map((record) => convertRecord(record)?.money).filter(Boolean),
+    reportingCurrency
+  );
+
+  // Budgets the expense in the form would take past their limit
+  const budgetWarnings = formData.category_id && formData.amount && formData.expense_date
+    ? projectExpense(budgets, expenseRecords, {
+      id: editingRecord?.id,
+      category_id: formData.category_id,
+      amount: parseAmount(formData.amount, formData.currency),
+      currency: formData.currency,
+      expense_date: formData.expense_date,
+    }, rates, startMonth).filter((variance) => variance.status === 'over')
+    : [];
+
+  const renderConverted = (record: ExpenseRecord) => {
+    if (record.currency === reportingCurrency) return null;
+    const converted = convertRecord(record);
+    if (!converted) {
+      return <p className="text-xs text-muted-foreground">No exchange rate</p>;
+    }
+    return (
+      <p
+        className="text-xs text-muted-foreground"
+        title={`Rate ${converted.rate.toFixed(4)} from ${converted.rateDate}${converted.isFallback ? ' (earliest available)' : ''}`}
+      >
+        ≈ {formatMoney(converted.money)}
+      </p>
+    );
   };
 
   return (
@@ -229,8 +337,6 @@ const Expenses = () => {
               setEditingRecord(null);
               setFormData({
                 category_id: '',
-                quarter: 'Q1',
-                year: new Date().getFullYear(),
                 amount: '',
                 currency: 'USD',
                 description: '',
@@ -247,7 +353,7 @@ const Expenses = () => {
                 {editingRecord ? 'Edit Expense Record' : 'Add New Expense Record'}
               </DialogTitle>
               <DialogDescription>
-                Track your expenses by category, quarter and currency
+                Track your expenses by category, date and currency
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -267,42 +373,13 @@ const Expenses = () => {
                 </Select>
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="quarter">Quarter</Label>
-                  <Select value={formData.quarter} onValueChange={(value: Quarter) => setFormData({...formData, quarter: value})}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Q1">Q1</SelectItem>
-                      <SelectItem value="Q2">Q2</SelectItem>
-                      <SelectItem value="Q3">Q3</SelectItem>
-                      <SelectItem value="Q4">Q4</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="year">Year</Label>
-                  <Select value={formData.year.toString()} onValueChange={(value) => setFormData({...formData, year: parseInt(value)})}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="2024">2024</SelectItem>
-                      <SelectItem value="2025">2025</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="amount">Amount *</Label>
                   <Input
                     id="amount"
                     type="number"
-                    step="0.01"
+                    step={amountStep(formData.currency)}
                     placeholder="0.00"
                     value={formData.amount}
                     onChange={(e) => setFormData({...formData, amount: e.target.value})}
@@ -311,26 +388,25 @@ const Expenses = () => {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="currency">Currency</Label>
-                  <Select value={formData.currency} onValueChange={(value: Currency) => setFormData({...formData, currency: value})}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="USD">USD ($)</SelectItem>
-                      <SelectItem value="GHS">GHS (₵)</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <CurrencySelect value={formData.currency} onValueChange={(value) => setFormData({...formData, currency: value})} />
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="expense_date">Expense Date</Label>
+                <Label htmlFor="expense_date">Expense Date *</Label>
                 <Input
                   id="expense_date"
                   type="date"
                   value={formData.expense_date}
                   onChange={(e) => setFormData({...formData, expense_date: e.target.value})}
+                  required
                 />
+                {formData.expense_date && (
+                  <p className={`text-xs ${isLocked(formData.expense_date) ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    Counts toward {fiscalQuarterLabel(quarterOf(formData.expense_date, startMonth))}
+                    {isLocked(formData.expense_date) && ', which is locked'}
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -343,12 +419,26 @@ const Expenses = () => {
                 />
               </div>
 
+              {budgetWarnings.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Over budget</AlertTitle>
+                  <AlertDescription>
+                    {budgetWarnings.map((variance) => (
+                      <p key={variance.budget.id}>
+                        This takes {variance.budget.expense_categories.name} to {(variance.percentUsed * 100).toFixed(0)}% of its {variance.period.label} budget ({formatMoney(variance.spent)} of {formatMoney(variance.planned)}).
+                      </p>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button type="submit">
-                  {editingRecord ? 'Update' : 'Add'} Expense
+                <Button type="submit" disabled={isLocked(formData.expense_date)}>
+                  {editingRecord ? 'Update' : 'Add'} Expense{budgetWarnings.length > 0 && ' Anyway'}
                 </Button>
               </div>
             </form>
@@ -358,10 +448,20 @@ const Expenses = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Expense Records</CardTitle>
-          <CardDescription>
-            View and manage all your expenses by category
-          </CardDescription>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Expense Records</CardTitle>
+              <CardDescription>
+                View and manage all your expenses by category
+              </CardDescription>
+            </div>
+            <div className="text-right space-y-1">
+              <CurrencySelect value={reportingCurrency} onValueChange={(value) => setReportingCurrency(value)} className="w-32" />
+              <p className="text-sm text-muted-foreground">
+                Total: <span className="font-medium text-destructive">{formatMoney(convertedTotal)}</span>
+              </p>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -380,15 +480,38 @@ const Expenses = () => {
                   <div className="flex-1">
                     <div className="flex items-center space-x-4">
                       <div>
-                        <p className="font-medium">{record.expense_categories.name}</p>
+                        <p className="font-medium flex items-center gap-2">
+                          {record.expense_categories.name}
+                          {isLocked(record.expense_date) && (
+                            <Badge variant="secondary" className="gap-1">
+                              <Lock className="h-3 w-3" />
+                              Locked
+                            </Badge>
+                          )}
+                          {flagsForExpense(record.id).map((flag) => (
+                            <Badge key={flag.key} variant="outline" className="gap-1 border-warning text-warning" title={flag.message}>
+                              <AlertTriangle className="h-3 w-3" />
+                              {SPENDING_FLAG_LABELS[flag.kind]}
+                              <button
+                                type="button"
+                                aria-label="Dismiss"
+                                className="ml-1 rounded-sm opacity-70 hover:opacity-100"
+                                onClick={() => handleDismissFlag(flag)}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                        </p>
                         <p className="text-sm text-muted-foreground">
-                          {record.quarter} {record.year} • {new Date(record.expense_date).toLocaleDateString()}
+                          {fiscalQuarterLabel(record)} • {new Date(record.expense_date).toLocaleDateString()}
                         </p>
                       </div>
                       <div className="text-right">
                         <p className="text-lg font-bold text-destructive">
                           {formatCurrency(record.amount, record.currency)}
                         </p>
+                        {renderConverted(record)}
                       </div>
                     </div>
                     {record.description && (
@@ -402,6 +525,7 @@ const Expenses = () => {
                       variant="outline"
                       size="sm"
                       onClick={() => handleEdit(record)}
+                      disabled={isLocked(record.expense_date)}
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
@@ -409,6 +533,7 @@ const Expenses = () => {
                       variant="outline"
                       size="sm"
                       onClick={() => handleDelete(record.id)}
+                      disabled={isLocked(record.expense_date)}
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
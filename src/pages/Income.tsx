@@ -1,23 +1,32 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { usePeriodLocks } from '@/hooks/usePeriodLocks';
+import { useEnvelopeBudget } from '@/hooks/useEnvelopeBudget';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
-import { Plus, Edit, Trash2, TrendingUp } from 'lucide-react';
+import { Plus, Edit, Trash2, TrendingUp, Lock, Mail } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-
-type Quarter = 'Q1' | 'Q2' | 'Q3' | 'Q4';
-type Currency = 'USD' | 'GHS';
+import CurrencySelect from '@/components/CurrencySelect';
+import AllocationDialog from '@/components/envelopes/AllocationDialog';
+import { Currency, Quarter, formatCurrency } from '@/lib/currency';
+import { amountStep, convertMoney, formatMoney, money, parseAmount, sum } from '@/lib/money';
+import { fiscalQuarterLabel, quarterOf } from '@/lib/periods';
+import { isPeriodLockedError } from '@/lib/periodLocks';
+import { isAllocationLimitError, unassignedFor } from '@/lib/envelopes';
 
 interface IncomeRecord {
   id: string;
   quarter: Quarter;
   year: number;
+  income_date: string;
   amount: number;
   currency: Currency;
   source: string;
@@ -28,14 +37,19 @@ interface IncomeRecord {
 const Income = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const { startMonth } = useFiscalYear();
+  const { isLocked } = usePeriodLocks(startMonth);
   const [incomeRecords, setIncomeRecords] = useState<IncomeRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRecord, setEditingRecord] = useState<IncomeRecord | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState<Currency>('USD');
+  const { since: envelopeSince, envelopes, allocations, refetch: refetchEnvelopes } = useEnvelopeBudget(reportingCurrency);
+  const [allocatingRecord, setAllocatingRecord] = useState<IncomeRecord | null>(null);
 
   const [formData, setFormData] = useState({
-    quarter: 'Q1' as Quarter,
-    year: new Date().getFullYear(),
+    income_date: new Date().toISOString().split('T')[0],
     amount: '',
     currency: 'USD' as Currency,
     source: '',
@@ -55,7 +69,7 @@ const Income = () => {
         .from('income_records')
         .select('*')
         .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
+        .order('income_date', { ascending: false });
 
       if (error) throw error;
       setIncomeRecords(data || []);
@@ -74,7 +88,7 @@ const Income = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.amount || !formData.source) {
+    if (!formData.amount || !formData.source || !formData.income_date) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields",
@@ -83,12 +97,32 @@ const Income = () => {
       return;
     }
 
+    if (isLocked(formData.income_date)) {
+      toast({
+        title: "Validation Error",
+        description: `${fiscalQuarterLabel(quarterOf(formData.income_date, startMonth))} is locked`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Allocations are kept in the income's currency
+    if (editingRecord && formData.currency !== editingRecord.currency && allocationsFor(editingRecord).length > 0) {
+      toast({
+        title: "Validation Error",
+        description: "Clear this income's envelope allocations before changing its currency",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       const recordData = {
         user_id: user?.id,
-        quarter: formData.quarter,
-        year: formData.year,
-        amount: parseFloat(formData.amount),
+        // Also derived by a database trigger; sent so the row is complete as typed
+        ...quarterOf(formData.income_date, startMonth),
+        income_date: formData.income_date,
+        amount: parseAmount(formData.amount, formData.currency),
         currency: formData.currency,
         source: formData.source,
         description: formData.description,
@@ -122,19 +156,23 @@ const Income = () => {
       setIsDialogOpen(false);
       setEditingRecord(null);
       setFormData({
-        quarter: 'Q1',
-        year: new Date().getFullYear(),
+        income_date: new Date().toISOString().split('T')[0],
         amount: '',
         currency: 'USD',
         source: '',
         description: '',
       });
       fetchIncomeRecords();
+      refetchEnvelopes();
     } catch (error) {
       console.error('Error saving income record:', error);
       toast({
         title: "Error",
-        description: "Failed to save income record",
+        description: isPeriodLockedError(error)
+          ? "This period is locked. Reopen it in Settings to make changes"
+          : isAllocationLimitError(error)
+            ? "This income is assigned to envelopes beyond the new amount. Reduce its allocations first"
+            : "Failed to save income record",
         variant: "destructive",
       });
     }
@@ -143,8 +181,7 @@ const Income = () => {
   const handleEdit = (record: IncomeRecord) => {
     setEditingRecord(record);
     setFormData({
-      quarter: record.quarter,
-      year: record.year,
+      income_date: record.income_date,
       amount: record.amount.toString(),
       currency: record.currency,
       source: record.source,
@@ -167,19 +204,48 @@ const Income = () => {
         description: "Income record deleted successfully",
       });
       fetchIncomeRecords();
+      refetchEnvelopes();
     } catch (error) {
       console.error('Error deleting income record:', error);
       toast({
         title: "Error",
-        description: "Failed to delete income record",
+        description: isPeriodLockedError(error)
+          ? "This period is locked. Reopen it in Settings to make changes"
+          : "Failed to delete income record",
         variant: "destructive",
       });
     }
   };
 
-  const formatCurrency = (amount: number, currency: Currency) => {
-    const symbol = currency === 'USD' ? '$' : '₵';
-    return `${symbol}${amount.toLocaleString()}`;
+  const allocationsFor = (record: IncomeRecord) =>
+    allocations.filter((allocation) => allocation.income_record_id === record.id);
+
+  // Only income from the envelope start date on is assigned
+  const isEnvelopeIncome = (record: IncomeRecord) => !!envelopeSince && record.income_date >= envelopeSince;
+
+  // Each record is converted at the rate in effect on its own date
+  const convertRecord = (record: IncomeRecord) =>
+    convertMoney(money(record.amount, record.currency), reportingCurrency, record.income_date, rates);
+
+  const convertedTotal = sum(
+    incomeRecords.map((record) => convertRecord(record)?.money).filter(Boolean),
+    reportingCurrency
+  );
+
+  const renderConverted = (record: IncomeRecord) => {
+    if (record.currency === reportingCurrency) return null;
+    const converted = convertRecord(record);
+    if (!converted) {
+      return <p className="text-xs text-muted-foreground">No exchange rate</p>;
+    }
+    return (
+      <p
+        className="text-xs text-muted-foreground"
+        title={`Rate ${converted.rate.toFixed(4)} from ${converted.rateDate}${converted.isFallback ? ' (earliest available)' : ''}`}
+      >
+        ≈ {formatMoney(converted.money)}
+      </p>
+    );
   };
 
   return (
@@ -194,8 +260,7 @@ const Income = () => {
             <Button onClick={() => {
               setEditingRecord(null);
               setFormData({
-                quarter: 'Q1',
-                year: new Date().getFullYear(),
+                income_date: new Date().toISOString().split('T')[0],
                 amount: '',
                 currency: 'USD',
                 source: '',
@@ -212,37 +277,25 @@ const Income = () => {
                 {editingRecord ? 'Edit Income Record' : 'Add New Income Record'}
               </DialogTitle>
               <DialogDescription>
-                Track your income sources by quarter and currency
+                Track your income sources by date and currency
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="quarter">Quarter</Label>
-                  <Select value={formData.quarter} onValueChange={(value: Quarter) => setFormData({...formData, quarter: value})}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="Q1">Q1</SelectItem>
-                      <SelectItem value="Q2">Q2</SelectItem>
-                      <SelectItem value="Q3">Q3</SelectItem>
-                      <SelectItem value="Q4">Q4</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="year">Year</Label>
-                  <Select value={formData.year.toString()} onValueChange={(value) => setFormData({...formData, year: parseInt(value)})}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="2024">2024</SelectItem>
-                      <SelectItem value="2025">2025</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+              <div className="space-y-2">
+                <Label htmlFor="income_date">Date Received *</Label>
+                <Input
+                  id="income_date"
+                  type="date"
+                  value={formData.income_date}
+                  onChange={(e) => setFormData({...formData, income_date: e.target.value})}
+                  required
+                />
+                {formData.income_date && (
+                  <p className={`text-xs ${isLocked(formData.income_date) ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    Counts toward {fiscalQuarterLabel(quarterOf(formData.income_date, startMonth))}
+                    {isLocked(formData.income_date) && ', which is locked'}
+                  </p>
+                )}
               </div>
               
               <div className="grid grid-cols-2 gap-4">
@@ -251,7 +304,7 @@ const Income = () => {
                   <Input
                     id="amount"
                     type="number"
-                    step="0.01"
+                    step={amountStep(formData.currency)}
                     placeholder="0.00"
                     value={formData.amount}
                     onChange={(e) => setFormData({...formData, amount: e.target.value})}
@@ -260,15 +313,7 @@ const Income = () => {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="currency">Currency</Label>
-                  <Select value={formData.currency} onValueChange={(value: Currency) => setFormData({...formData, currency: value})}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="USD">USD ($)</SelectItem>
-                      <SelectItem value="GHS">GHS (₵)</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <CurrencySelect value={formData.currency} onValueChange={(value) => setFormData({...formData, currency: value})} />
                 </div>
               </div>
 
@@ -297,7 +342,7 @@ const Income = () => {
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button type="submit">
+                <Button type="submit" disabled={isLocked(formData.income_date)}>
                   {editingRecord ? 'Update' : 'Add'} Income
                 </Button>
               </div>
@@ -308,10 +353,20 @@ const Income = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Income Records</CardTitle>
-          <CardDescription>
-            View and manage all your income sources
-          </CardDescription>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Income Records</CardTitle>
+              <CardDescription>
+                View and manage all your income sources
+              </CardDescription>
+            </div>
+            <div className="text-right space-y-1">
+              <CurrencySelect value={reportingCurrency} onValueChange={(value) => setReportingCurrency(value)} className="w-32" />
+              <p className="text-sm text-muted-foreground">
+                Total: <span className="font-medium text-success">{formatMoney(convertedTotal)}</span>
+              </p>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -330,15 +385,29 @@ const Income = () => {
                   <div className="flex-1">
                     <div className="flex items-center space-x-4">
                       <div>
-                        <p className="font-medium">{record.source}</p>
+                        <p className="font-medium flex items-center gap-2">
+                          {record.source}
+                          {isLocked(record.income_date) && (
+                            <Badge variant="secondary" className="gap-1">
+                              <Lock className="h-3 w-3" />
+                              Locked
+                            </Badge>
+                          )}
+                          {isEnvelopeIncome(record) && unassignedFor(record, allocations).minor > 0 && (
+                            <Badge variant="outline">
+                              {formatMoney(unassignedFor(record, allocations))} unassigned
+                            </Badge>
+                          )}
+                        </p>
                         <p className="text-sm text-muted-foreground">
-                          {record.quarter} {record.year}
+                          {new Date(record.income_date).toLocaleDateString()} • {fiscalQuarterLabel(record)}
                         </p>
                       </div>
                       <div className="text-right">
                         <p className="text-lg font-bold text-success">
                           {formatCurrency(record.amount, record.currency)}
                         </p>
+                        {renderConverted(record)}
                       </div>
                     </div>
                     {record.description && (
@@ -348,10 +417,21 @@ const Income = () => {
                     )}
                   </div>
                   <div className="flex space-x-2">
+                    {isEnvelopeIncome(record) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAllocatingRecord(record)}
+                        aria-label="Assign to envelopes"
+                      >
+                        <Mail className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
                       onClick={() => handleEdit(record)}
+                      disabled={isLocked(record.income_date)}
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
@@ -359,6 +439,7 @@ const Income = () => {
                       variant="outline"
                       size="sm"
                       onClick={() => handleDelete(record.id)}
+                      disabled={isLocked(record.income_date)}
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
@@ -369,6 +450,14 @@ const Income = () => {
           )}
         </CardContent>
       </Card>
+
+      <AllocationDialog
+        income={allocatingRecord}
+        envelopes={envelopes}
+        allocations={allocations}
+        onOpenChange={(open) => !open && setAllocatingRecord(null)}
+        onSaved={refetchEnvelopes}
+      />
     </div>
   );
 };
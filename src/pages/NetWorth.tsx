@@ -0,0 +1,882 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyRates } from '@/hooks/useCurrencyRates';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { Plus, Edit, Trash2, Landmark, History, RefreshCw, Archive, ArchiveRestore } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency, formatCurrency } from '@/lib/currency';
+import { amountStep, convertMoney, formatMoney, money, negate, parseAmount, toAmount } from '@/lib/money';
+import {
+  GoalBalance,
+  GoalTransaction,
+  NET_WORTH_ITEM_TYPES,
+  NetWorthItem,
+  NetWorthItemType,
+  NetWorthValuation,
+  buildNetWorthHistory,
+  isLiability,
+  itemTypeLabel,
+  itemValuations,
+} from '@/lib/netWorth';
+
+const chartConfig = {
+  assets: {
+    label: 'Assets',
+    color: 'hsl(var(--success))',
+  },
+  savings: {
+    label: 'Savings goals',
+    color: 'hsl(var(--info))',
+  },
+  liabilities: {
+    label: 'Liabilities',
+    color: 'hsl(var(--destructive))',
+  },
+  netWorth: {
+    label: 'Net worth',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const NetWorth = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { rates } = useCurrencyRates();
+  const [items, setItems] = useState<NetWorthItem[]>([]);
+  const [valuations, setValuations] = useState<NetWorthValuation[]>([]);
+  const [goals, setGoals] = useState<GoalBalance[]>([]);
+  const [transactions, setTransactions] = useState<GoalTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reportingCurrency, setReportingCurrency] = useState<Currency>('USD');
+  const [months, setMonths] = useState(12);
+  const [isItemDialogOpen, setIsItemDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<NetWorthItem | null>(null);
+  const [valuingItem, setValuingItem] = useState<NetWorthItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<NetWorthItem | null>(null);
+  const [retiringItem, setRetiringItem] = useState<NetWorthItem | null>(null);
+
+  const [itemFormData, setItemFormData] = useState({
+    name: '',
+    item_type: 'bank_account' as NetWorthItemType,
+    currency: 'USD' as Currency,
+    description: '',
+    value: '',
+    valuation_date: today(),
+  });
+
+  const [valuationFormData, setValuationFormData] = useState({
+    value: '',
+    valuation_date: today(),
+    note: '',
+  });
+
+  const [retireFormData, setRetireFormData] = useState({
+    retired_on: today(),
+    note: '',
+  });
+
+  useEffect(() => {
+    if (user) {
+      fetchNetWorthData();
+    }
+  }, [user]);
+
+  const fetchNetWorthData = async () => {
+    setLoading(true);
+    try {
+      const { data: itemData, error: itemError } = await supabase
+        .from('net_worth_items')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('name');
+
+      if (itemError) throw itemError;
+
+      const { data: valuationData, error: valuationError } = await supabase
+        .from('net_worth_valuations')
+        .select('*')
+        .in('item_id', (itemData || []).map((item) => item.id))
+        .order('valuation_date');
+
+      if (valuationError) throw valuationError;
+
+      const { data: goalData, error: goalError } = await supabase
+        .from('savings_goals')
+        .select('id, currency, current_amount')
+        .eq('user_id', user?.id);
+
+      if (goalError) throw goalError;
+
+      // Needed to work back from today's goal balances to earlier months
+      const { data: transactionData, error: transactionError } = await supabase
+        .from('savings_transactions')
+        .select('savings_goal_id, amount, transaction_type, transaction_date')
+        .in('savings_goal_id', (goalData || []).map((goal) => goal.id));
+
+      if (transactionError) throw transactionError;
+
+      setItems((itemData || []) as NetWorthItem[]);
+      setValuations(valuationData || []);
+      setGoals(goalData || []);
+      setTransactions((transactionData || []) as GoalTransaction[]);
+    } catch (error) {
+      console.error('Error fetching net worth data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch net worth data",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetItemForm = () => {
+    setItemFormData({
+      name: '',
+      item_type: 'bank_account',
+      currency: 'USD',
+      description: '',
+      value: '',
+      valuation_date: today(),
+    });
+  };
+
+  const handleItemSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!itemFormData.name || (!editingItem && (!itemFormData.value || !itemFormData.valuation_date))) {
+      toast({
+        title: "Validation Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const itemData = {
+        user_id: user?.id,
+        name: itemFormData.name,
+        item_type: itemFormData.item_type,
+        currency: itemFormData.currency,
+        description: itemFormData.description,
+      };
+
+      if (editingItem) {
+        const { error } = await supabase
+          .from('net_worth_items')
+          .update(itemData)
+          .eq('id', editingItem.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Item updated successfully",
+        });
+      } else {
+        const { data, error } = await supabase
+          .from('net_worth_items')
+          .insert([itemData])
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        // Every item starts with an opening valuation
+        const { error: valuationError } = await supabase
+          .from('net_worth_valuations')
+          .insert([{
+            item_id: data.id,
+            value: parseAmount(itemFormData.value, itemFormData.currency),
+            valuation_date: itemFormData.valuation_date,
+          }]);
+
+        if (valuationError) throw valuationError;
+
+        toast({
+          title: "Success",
+          description: "Item added successfully",
+        });
+      }
+
+      setIsItemDialogOpen(false);
+      setEditingItem(null);
+      resetItemForm();
+      fetchNetWorthData();
+    } catch (error) {
+      console.error('Error saving net worth item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleValuationSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!valuingItem || !valuationFormData.value || !valuationFormData.valuation_date) {
+      toast({
+        title: "Validation Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      // One valuation per item and day: a second entry for the same date replaces the first
+      const { error } = await supabase
+        .from('net_worth_valuations')
+        .upsert([{
+          item_id: valuingItem.id,
+          value: parseAmount(valuationFormData.value, valuingItem.currency),
+          valuation_date: valuationFormData.valuation_date,
+          note: valuationFormData.note,
+        }], { onConflict: 'item_id,valuation_date' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Valuation recorded successfully",
+      });
+
+      setValuingItem(null);
+      setValuationFormData({ value: '', valuation_date: today(), note: '' });
+      fetchNetWorthData();
+    } catch (error) {
+      console.error('Error saving valuation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save valuation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRetireSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!retiringItem) return;
+
+    const itemHistory = itemValuations(valuations, retiringItem.id);
+    const last = itemHistory[itemHistory.length - 1];
+    // The closing zero needs a day of its own, so no real valuation is replaced
+    if (!retireFormData.retired_on || (last && retireFormData.retired_on <= last.valuation_date)) {
+      toast({
+        title: "Validation Error",
+        description: "The retirement date must be after the item's latest valuation",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      // A final zero valuation ends the item's history on the date it was sold or repaid
+      const { error: valuationError } = await supabase
+        .from('net_worth_valuations')
+        .insert([{
+          item_id: retiringItem.id,
+          value: 0,
+          valuation_date: retireFormData.retired_on,
+          note: retireFormData.note || (isLiability(retiringItem.item_type) ? 'Repaid' : 'Sold or closed'),
+        }]);
+
+      if (valuationError) throw valuationError;
+
+      const { error } = await supabase
+        .from('net_worth_items')
+        .update({ is_active: false })
+        .eq('id', retiringItem.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Item retired successfully",
+      });
+
+      setRetiringItem(null);
+      fetchNetWorthData();
+    } catch (error) {
+      console.error('Error retiring net worth item:', error);
+      toast({
+        title: "Error",
+        // A valuation recorded for that date meanwhile, e.g. in another tab
+        description: (error as { code?: string })?.code === '23505'
+          ? "The item already has a valuation on that date. Choose a later date"
+          : "Failed to retire item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReactivate = async (item: NetWorthItem) => {
+    try {
+      const { error } = await supabase
+        .from('net_worth_items')
+        .update({ is_active: true })
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Item reactivated successfully. Record its current value to bring it back into net worth",
+      });
+      fetchNetWorthData();
+    } catch (error) {
+      console.error('Error reactivating net worth item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reactivate item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEditItem = (item: NetWorthItem) => {
+    setEditingItem(item);
+    setItemFormData({
+      name: item.name,
+      item_type: item.item_type,
+      currency: item.currency,
+      description: item.description || '',
+      value: '',
+      valuation_date: today(),
+    });
+    setIsItemDialogOpen(true);
+  };
+
+  const handleDeleteItem = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('net_worth_items')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Item deleted successfully",
+      });
+      fetchNetWorthData();
+    } catch (error) {
+      console.error('Error deleting net worth item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteValuation = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('net_worth_valuations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Valuation deleted successfully",
+      });
+      fetchNetWorthData();
+    } catch (error) {
+      console.error('Error deleting valuation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete valuation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const history = buildNetWorthHistory(items, valuations, goals, transactions, months, reportingCurrency, rates);
+  const latest = history.points[history.points.length - 1];
+
+  const chartData = history.points.map((point) => ({
+    label: point.label,
+    assets: toAmount(point.assets),
+    savings: toAmount(point.savings),
+    // Drawn below the axis
+    liabilities: toAmount(negate(point.liabilities)),
+    netWorth: toAmount(point.netWorth),
+  }));
+
+  const renderItem = (item: NetWorthItem) => {
+    const itemHistory = itemValuations(valuations, item.id);
+    const current = itemHistory[itemHistory.length - 1];
+    const converted = current && item.currency !== reportingCurrency
+      ? convertMoney(money(current.value, item.currency), reportingCurrency, today(), rates)
+      : null;
+    return (
+      <div key={item.id} className={`flex items-center justify-between p-4 border rounded-lg ${item.is_active ? '' : 'opacity-60'}`}>
+        <div>
+          <p className="font-medium flex items-center gap-2">
+            {item.name}
+            <Badge variant="outline">{itemTypeLabel(item.item_type)}</Badge>
+            {!item.is_active && <Badge variant="secondary">Retired</Badge>}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {current
+              ? `Valued ${new Date(current.valuation_date).toLocaleDateString()} • ${itemHistory.length} valuation(s)`
+              : 'No valuations yet'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          {current && (
+            <div className="text-right">
+              <p className={`text-lg font-bold ${isLiability(item.item_type) ? 'text-destructive' : 'text-success'}`}>
+                {formatCurrency(current.value, item.currency)}
+              </p>
+              {converted && (
+                <p className="text-xs text-muted-foreground">≈ {formatMoney(converted.money)}</p>
+              )}
+            </div>
+          )}
+          <div className="flex space-x-2">
+            {item.is_active && (
+              <Button
+                variant="outline"
+                size="sm"
+                title="Update value"
+                onClick={() => {
+                  setValuingItem(item);
+                  setValuationFormData({ value: '', valuation_date: today(), note: '' });
+                }}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="outline" size="sm" title="History" onClick={() => setHistoryItem(item)}>
+              <History className="h-4 w-4" />
+            </Button>
+            {item.is_active ? (
+              <Button
+                variant="outline"
+                size="sm"
+                title={isLiability(item.item_type) ? 'Mark repaid' : 'Mark sold or closed'}
+                onClick={() => {
+                  setRetiringItem(item);
+                  setRetireFormData({ retired_on: today(), note: '' });
+                }}
+              >
+                <Archive className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" title="Reactivate" onClick={() => handleReactivate(item)}>
+                <ArchiveRestore className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => handleEditItem(item)}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleDeleteItem(item.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Retired items are listed after the active ones
+  const listed = [...items].sort((a, b) => Number(b.is_active) - Number(a.is_active));
+  const assetItems = listed.filter((item) => !isLiability(item.item_type));
+  const liabilityItems = listed.filter((item) => isLiability(item.item_type));
+  const historyValuations = historyItem ? itemValuations(valuations, historyItem.id).reverse() : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Landmark className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-bold text-foreground">Net Worth</h1>
+        </div>
+        <div className="flex items-center space-x-2">
+          <CurrencySelect value={reportingCurrency} onValueChange={setReportingCurrency} className="w-32" />
+          <Dialog open={isItemDialogOpen} onOpenChange={setIsItemDialogOpen}>
+            <DialogTrigger asChild>
+              <Button
+                onClick={() => {
+                  setEditingItem(null);
+                  resetItemForm();
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingItem ? 'Edit Item' : 'Add Asset or Liability'}</DialogTitle>
+                <DialogDescription>
+                  {editingItem ? 'Update the item details' : 'Record something you own or owe, with its current value'}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleItemSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    placeholder="e.g., GCB current account, MTN MoMo, Car loan"
+                    value={itemFormData.name}
+                    onChange={(e) => setItemFormData({...itemFormData, name: e.target.value})}
+                    required
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="item_type">Type</Label>
+                    <Select value={itemFormData.item_type} onValueChange={(value: NetWorthItemType) => setItemFormData({...itemFormData, item_type: value})}>
+                      <SelectTrigger id="item_type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {NET_WORTH_ITEM_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}{type.liability ? ' (owed)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="currency">Currency</Label>
+                    <CurrencySelect
+                      id="currency"
+                      value={itemFormData.currency}
+                      onValueChange={(value) => setItemFormData({...itemFormData, currency: value})}
+                    />
+                  </div>
+                </div>
+
+                {!editingItem && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="value">{isLiability(itemFormData.item_type) ? 'Balance owed *' : 'Current value *'}</Label>
+                      <Input
+                        id="value"
+                        type="number"
+                        min="0"
+                        step={amountStep(itemFormData.currency)}
+                        placeholder="0.00"
+                        value={itemFormData.value}
+                        onChange={(e) => setItemFormData({...itemFormData, value: e.target.value})}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="valuation_date">As of *</Label>
+                      <Input
+                        id="valuation_date"
+                        type="date"
+                        value={itemFormData.valuation_date}
+                        onChange={(e) => setItemFormData({...itemFormData, valuation_date: e.target.value})}
+                        required
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    placeholder="Optional notes"
+                    value={itemFormData.description}
+                    onChange={(e) => setItemFormData({...itemFormData, description: e.target.value})}
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setIsItemDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingItem ? 'Update' : 'Add'} Item
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-center py-4">Loading...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Assets</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-success">{formatMoney(latest.assets)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Savings Goals</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-info">{formatMoney(latest.savings)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Liabilities</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-destructive">{formatMoney(latest.liabilities)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Net Worth</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${latest.netWorth.minor >= 0 ? 'text-primary' : 'text-destructive'}`}>
+                  {formatMoney(latest.netWorth)}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div className="space-y-1.5">
+                  <CardTitle>Net Worth Over Time</CardTitle>
+                  <CardDescription>
+                    Month-end values in {reportingCurrency}, converted at each month's rate
+                  </CardDescription>
+                </div>
+                <Select value={months.toString()} onValueChange={(value) => setMonths(parseInt(value))}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="6">6 months</SelectItem>
+                    <SelectItem value="12">12 months</SelectItem>
+                    <SelectItem value="24">24 months</SelectItem>
+                    <SelectItem value="60">5 years</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <ChartContainer config={chartConfig} className="h-72 w-full">
+                <ComposedChart data={chartData} stackOffset="sign">
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="assets" stackId="balance" fill="var(--color-assets)" />
+                  <Bar dataKey="savings" stackId="balance" fill="var(--color-savings)" />
+                  <Bar dataKey="liabilities" stackId="balance" fill="var(--color-liabilities)" />
+                  <Line dataKey="netWorth" type="monotone" stroke="var(--color-netWorth)" strokeWidth={2} />
+                </ComposedChart>
+              </ChartContainer>
+              {history.unconverted > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {history.unconverted} item(s) or goal(s) have no rate into {reportingCurrency} for some months and are left out of them.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Assets</CardTitle>
+                <CardDescription>Accounts, wallets, cash and property</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {assetItems.length === 0 ? (
+                  <p className="text-center py-4 text-muted-foreground">
+                    No assets recorded yet.
+                  </p>
+                ) : (
+                  <div className="space-y-4">{assetItems.map(renderItem)}</div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Liabilities</CardTitle>
+                <CardDescription>Loans and other balances owed</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {liabilityItems.length === 0 ? (
+                  <p className="text-center py-4 text-muted-foreground">
+                    No liabilities recorded.
+                  </p>
+                ) : (
+                  <div className="space-y-4">{liabilityItems.map(renderItem)}</div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      <Dialog open={Boolean(valuingItem)} onOpenChange={(open) => !open && setValuingItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update {valuingItem?.name}</DialogTitle>
+            <DialogDescription>
+              Record its {valuingItem && isLiability(valuingItem.item_type) ? 'balance owed' : 'value'} on a date. Earlier valuations are kept as history.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleValuationSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="valuation-value">Value ({valuingItem?.currency}) *</Label>
+                <Input
+                  id="valuation-value"
+                  type="number"
+                  min="0"
+                  step={valuingItem ? amountStep(valuingItem.currency) : '0.01'}
+                  placeholder="0.00"
+                  value={valuationFormData.value}
+                  onChange={(e) => setValuationFormData({...valuationFormData, value: e.target.value})}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="valuation-date">Date *</Label>
+                <Input
+                  id="valuation-date"
+                  type="date"
+                  value={valuationFormData.valuation_date}
+                  onChange={(e) => setValuationFormData({...valuationFormData, valuation_date: e.target.value})}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="valuation-note">Note</Label>
+              <Input
+                id="valuation-note"
+                placeholder="e.g., Bank statement, agent estimate"
+                value={valuationFormData.note}
+                onChange={(e) => setValuationFormData({...valuationFormData, note: e.target.value})}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setValuingItem(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save Valuation</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(retiringItem)} onOpenChange={(open) => !open && setRetiringItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Retire {retiringItem?.name}</DialogTitle>
+            <DialogDescription>
+              {retiringItem && isLiability(retiringItem.item_type) ? 'Once repaid' : 'Once sold or closed'}, the item stops
+              counting towards net worth from this date. Its history up to then is kept.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRetireSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="retired-on">{retiringItem && isLiability(retiringItem.item_type) ? 'Repaid on' : 'Sold or closed on'} *</Label>
+              <Input
+                id="retired-on"
+                type="date"
+                value={retireFormData.retired_on}
+                onChange={(e) => setRetireFormData({...retireFormData, retired_on: e.target.value})}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="retire-note">Note</Label>
+              <Input
+                id="retire-note"
+                placeholder="e.g., Sold to a dealer, Final instalment paid"
+                value={retireFormData.note}
+                onChange={(e) => setRetireFormData({...retireFormData, note: e.target.value})}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setRetiringItem(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Retire Item</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(historyItem)} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{historyItem?.name} History</DialogTitle>
+            <DialogDescription>Valuation snapshots, newest first</DialogDescription>
+          </DialogHeader>
+          {historyValuations.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              No valuations yet.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {historyValuations.map((valuation) => (
+                <div key={valuation.id} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <p className="font-medium">{formatCurrency(valuation.value, historyItem.currency)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(valuation.valuation_date).toLocaleDateString()}
+                      {valuation.note && ` • ${valuation.note}`}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleDeleteValuation(valuation.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default NetWorth;
@@ -0,0 +1,701 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { usePeriodLocks } from '@/hooks/usePeriodLocks';
+import { useRecurring } from '@/hooks/useRecurring';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2, Repeat, Check, SkipForward, Undo2, Pause, Play, CalendarClock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency, formatCurrency } from '@/lib/currency';
+import { amountStep, parseAmount } from '@/lib/money';
+import { fiscalQuarterLabel, quarterOf } from '@/lib/periods';
+import { isPeriodLockedError } from '@/lib/periodLocks';
+import {
+  LAST_DAY_OF_MONTH,
+  RECURRING_FREQUENCIES,
+  RecurringFrequency,
+  RecurringKind,
+  RecurringOccurrence,
+  RecurringTemplate,
+  dayOfMonthLabel,
+  frequencyLabel,
+  nextOccurrence,
+  occurrenceAmount,
+  templateName,
+} from '@/lib/recurring';
+
+interface ExpenseCategory {
+  id: string;
+  name: string;
+}
+
+// Skipped occurrences listed for restoring; older ones stay skipped
+const RECENT_SKIPPED = 5;
+
+// "same" follows the start date's day
+const DAY_OF_MONTH_OPTIONS = [
+  { value: 'same', label: dayOfMonthLabel(null) },
+  ...Array.from({ length: 31 }, (_, i) => ({ value: (i + 1).toString(), label: dayOfMonthLabel(i + 1) })),
+  { value: LAST_DAY_OF_MONTH.toString(), label: dayOfMonthLabel(LAST_DAY_OF_MONTH) },
+];
+
+const Recurring = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { startMonth } = useFiscalYear();
+  const { isLocked } = usePeriodLocks(startMonth);
+  const { templates, occurrences, pending, loading, confirm, skip, restore, refetch } = useRecurring(startMonth);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTemplate | null>(null);
+  const [confirming, setConfirming] = useState<RecurringOccurrence | null>(null);
+  const [confirmAmount, setConfirmAmount] = useState('');
+
+  const emptyForm = () => ({
+    kind: 'expense' as RecurringKind,
+    source: '',
+    category_id: '',
+    description: '',
+    amount: '',
+    currency: 'USD' as Currency,
+    frequency: 'monthly' as RecurringFrequency,
+    day_of_month: 'same',
+    start_date: new Date().toISOString().split('T')[0],
+    end_date: '',
+    auto_create: false,
+  });
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    if (user) {
+      fetchCategories();
+    }
+  }, [user]);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('expense_categories')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  const templateFor = (occurrence: RecurringOccurrence) =>
+    templates.find((template) => template.id === occurrence.template_id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const missingTarget = formData.kind === 'income' ? !formData.source.trim() : !formData.category_id;
+    if (missingTarget || !formData.amount || !formData.start_date) {
+      toast({
+        title: "Validation Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const amount = parseAmount(formData.amount, formData.currency);
+    if (amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Amount must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.end_date && formData.end_date < formData.start_date) {
+      toast({
+        title: "Validation Error",
+        description: "End date must be on or after the start date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const templateData = {
+        user_id: user?.id,
+        kind: formData.kind,
+        source: formData.kind === 'income' ? formData.source.trim() : null,
+        category_id: formData.kind === 'expense' ? formData.category_id : null,
+        description: formData.description || null,
+        amount,
+        currency: formData.currency,
+        frequency: formData.frequency,
+        day_of_month: formData.frequency === 'weekly' || formData.day_of_month === 'same'
+          ? null
+          : parseInt(formData.day_of_month),
+        start_date: formData.start_date,
+        end_date: formData.end_date || null,
+        auto_create: formData.auto_create,
+      };
+
+      if (editingTemplate) {
+        const { error } = await supabase
+          .from('recurring_templates')
+          .update(templateData)
+          .eq('id', editingTemplate.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Schedule updated successfully",
+        });
+      } else {
+        const { error } = await supabase
+          .from('recurring_templates')
+          .insert([templateData]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Schedule created successfully",
+        });
+      }
+
+      setIsDialogOpen(false);
+      setEditingTemplate(null);
+      setFormData(emptyForm());
+      refetch();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (template: RecurringTemplate) => {
+    setEditingTemplate(template);
+    setFormData({
+      kind: template.kind,
+      source: template.source || '',
+      category_id: template.category_id || '',
+      description: template.description || '',
+      amount: template.amount.toString(),
+      currency: template.currency,
+      frequency: template.frequency,
+      day_of_month: template.day_of_month === null ? 'same' : template.day_of_month.toString(),
+      start_date: template.start_date,
+      end_date: template.end_date || '',
+      auto_create: template.auto_create,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleToggleActive = async (template: RecurringTemplate) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_templates')
+        .update({ is_active: !template.is_active })
+        .eq('id', template.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: template.is_active ? "Schedule paused" : "Schedule resumed",
+      });
+      refetch();
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Schedule deleted successfully. Records it already created are kept",
+      });
+      refetch();
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openConfirm = (occurrence: RecurringOccurrence) => {
+    const template = templateFor(occurrence);
+    if (!template) return;
+    setConfirming(occurrence);
+    setConfirmAmount(occurrenceAmount(occurrence, template).toString());
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const template = confirming && templateFor(confirming);
+    if (!confirming || !template) return;
+
+    const amount = parseAmount(confirmAmount || '0', template.currency);
+    if (amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Amount must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const recorded = await confirm(confirming, amount);
+      toast({
+        title: "Success",
+        description: recorded
+          ? `${template.kind === 'income' ? 'Income' : 'Expense'} record added successfully`
+          : "This occurrence was already recorded",
+      });
+      setConfirming(null);
+    } catch (error) {
+      console.error('Error recording occurrence:', error);
+      toast({
+        title: "Error",
+        description: isPeriodLockedError(error)
+          ? "This date falls in a locked period. Reopen it in Settings, or skip this occurrence"
+          : "Failed to record occurrence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStatus = async (id: string, action: 'skip' | 'restore') => {
+    try {
+      await (action === 'skip' ? skip(id) : restore(id));
+    } catch (error) {
+      console.error('Error updating occurrence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update occurrence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+  const skipped = occurrences
+    .filter((occurrence) => occurrence.status === 'skipped')
+    .slice(-RECENT_SKIPPED)
+    .reverse();
+  const confirmingTemplate = confirming ? templateFor(confirming) : undefined;
+
+  const scheduleSummary = (template: RecurringTemplate) => [
+    frequencyLabel(template.frequency),
+    template.frequency !== 'weekly' && template.day_of_month !== null && `on the ${dayOfMonthLabel(template.day_of_month).toLowerCase()}`,
+    `from ${new Date(template.start_date).toLocaleDateString()}`,
+    template.end_date && `until ${new Date(template.end_date).toLocaleDateString()}`,
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Repeat className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-bold text-foreground">Recurring</h1>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => {
+              setEditingTemplate(null);
+              setFormData(emptyForm());
+            }}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Schedule
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingTemplate ? 'Edit Schedule' : 'Create New Schedule'}
+              </DialogTitle>
+              <DialogDescription>
+                Income or expenses that repeat, like rent, salary or school fees
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-kind">Type *</Label>
+                <Select
+                  value={formData.kind}
+                  onValueChange={(value) => setFormData({...formData, kind: value as RecurringKind})}
+                  disabled={!!editingTemplate}
+                >
+                  <SelectTrigger id="recurring-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.kind === 'income' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-source">Income Source *</Label>
+                  <Input
+                    id="recurring-source"
+                    placeholder="e.g., Salary"
+                    value={formData.source}
+                    onChange={(e) => setFormData({...formData, source: e.target.value})}
+                    required
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-category">Category *</Label>
+                  <Select value={formData.category_id} onValueChange={(value) => setFormData({...formData, category_id: value})}>
+                    <SelectTrigger id="recurring-category">
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-amount">Amount *</Label>
+                  <Input
+                    id="recurring-amount"
+                    type="number"
+                    step={amountStep(formData.currency)}
+                    placeholder="0.00"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({...formData, amount: e.target.value})}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-currency">Currency</Label>
+                  <CurrencySelect value={formData.currency} onValueChange={(value) => setFormData({...formData, currency: value})} />
+                </div>
+              </div>
+              {editingTemplate && (
+                <p className="text-xs text-muted-foreground -mt-2">
+                  A new amount applies to occurrences not yet recorded; records already made keep theirs.
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-frequency">Repeats *</Label>
+                  <Select
+                    value={formData.frequency}
+                    onValueChange={(value) => setFormData({...formData, frequency: value as RecurringFrequency})}
+                  >
+                    <SelectTrigger id="recurring-frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RECURRING_FREQUENCIES.map((frequency) => (
+                        <SelectItem key={frequency.value} value={frequency.value}>{frequency.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.frequency !== 'weekly' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-day">Day of Month</Label>
+                    <Select value={formData.day_of_month} onValueChange={(value) => setFormData({...formData, day_of_month: value})}>
+                      <SelectTrigger id="recurring-day">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DAY_OF_MONTH_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-start">Start Date *</Label>
+                  <Input
+                    id="recurring-start"
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData({...formData, start_date: e.target.value})}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-end">End Date</Label>
+                  <Input
+                    id="recurring-end"
+                    type="date"
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({...formData, end_date: e.target.value})}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="recurring-description">Description</Label>
+                <Textarea
+                  id="recurring-description"
+                  placeholder="Copied onto each record..."
+                  value={formData.description}
+                  onChange={(e) => setFormData({...formData, description: e.target.value})}
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="recurring-auto"
+                  checked={formData.auto_create}
+                  onCheckedChange={(checked) => setFormData({...formData, auto_create: checked})}
+                />
+                <Label htmlFor="recurring-auto">Record automatically when due</Label>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                {formData.auto_create
+                  ? 'Each occurrence is added as a record on its date, without asking.'
+                  : 'Each occurrence waits for you to confirm or skip it.'}
+              </p>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingTemplate ? 'Update' : 'Create'} Schedule
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <CalendarClock className="mr-2 h-5 w-5" />
+            Awaiting Confirmation
+            {pending.length > 0 && (
+              <Badge variant="secondary" className="ml-2">{pending.length}</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Occurrences that have fallen due. Confirm to add them as income or expense records, or skip them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-center py-4">Loading...</p>
+          ) : pending.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              Nothing waiting. Due occurrences appear here.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {pending.map((occurrence) => {
+                const template = templateFor(occurrence);
+                if (!template) return null;
+                const locked = isLocked(occurrence.occurrence_date);
+                return (
+                  <div key={occurrence.id} className="flex items-center justify-between p-3 border rounded">
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        {templateName(template)}
+                        <Badge variant="outline">{template.kind === 'income' ? 'Income' : 'Expense'}</Badge>
+                        {locked && <Badge variant="secondary">Locked period</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {new Date(occurrence.occurrence_date).toLocaleDateString()} • {fiscalQuarterLabel(quarterOf(occurrence.occurrence_date, startMonth))}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className={`font-medium ${template.kind === 'income' ? 'text-success' : 'text-destructive'}`}>
+                        {formatCurrency(occurrenceAmount(occurrence, template), template.currency)}
+                      </span>
+                      <Button size="sm" variant="outline" onClick={() => openConfirm(occurrence)} disabled={locked}>
+                        <Check className="mr-1 h-4 w-4" />
+                        Confirm
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleStatus(occurrence.id, 'skip')}>
+                        <SkipForward className="mr-1 h-4 w-4" />
+                        Skip
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {skipped.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Recently skipped</p>
+              {skipped.map((occurrence) => {
+                const template = templateFor(occurrence);
+                if (!template) return null;
+                return (
+                  <div key={occurrence.id} className="flex items-center justify-between p-3 border rounded">
+                    <p className="text-sm text-muted-foreground">
+                      {templateName(template)} • {new Date(occurrence.occurrence_date).toLocaleDateString()}
+                    </p>
+                    <Button size="sm" variant="ghost" onClick={() => handleStatus(occurrence.id, 'restore')}>
+                      <Undo2 className="mr-1 h-4 w-4" />
+                      Restore
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Repeat className="mr-2 h-5 w-5" />
+            Schedules
+          </CardTitle>
+          <CardDescription>
+            Templates that generate income and expense records
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-center py-4">Loading...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              No schedules yet. Add one for rent, salary or other regular amounts.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {templates.map((template) => {
+                const next = template.is_active ? nextOccurrence(template, today) : null;
+                return (
+                  <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="space-y-1">
+                      <p className="font-medium flex items-center gap-2">
+                        {templateName(template)}
+                        <Badge variant="outline">{template.kind === 'income' ? 'Income' : 'Expense'}</Badge>
+                        {template.auto_create && <Badge variant="secondary">Automatic</Badge>}
+                        {!template.is_active && <Badge variant="secondary">Paused</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">{scheduleSummary(template)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {next
+                          ? `Next due ${new Date(next).toLocaleDateString()}`
+                          : template.is_active ? 'No further occurrences' : 'Not generating occurrences while paused'}
+                      </p>
+                      {template.description && (
+                        <p className="text-sm text-muted-foreground">{template.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className={`text-lg font-bold ${template.kind === 'income' ? 'text-success' : 'text-destructive'}`}>
+                        {formatCurrency(template.amount, template.currency)}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleToggleActive(template)}
+                        aria-label={template.is_active ? 'Pause schedule' : 'Resume schedule'}
+                      >
+                        {template.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleEdit(template)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(template.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+        <DialogContent>
+          {confirming && confirmingTemplate && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Record {templateName(confirmingTemplate)}</DialogTitle>
+                <DialogDescription>
+                  Due {new Date(confirming.occurrence_date).toLocaleDateString()}. Change the amount if this one differs; the schedule keeps its own.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleConfirm} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="occurrence-amount">Amount ({confirmingTemplate.currency}) *</Label>
+                  <Input
+                    id="occurrence-amount"
+                    type="number"
+                    step={amountStep(confirmingTemplate.currency)}
+                    value={confirmAmount}
+                    onChange={(e) => setConfirmAmount(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setConfirming(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    Add {confirmingTemplate.kind === 'income' ? 'Income' : 'Expense'}
+                  </Button>
+                </div>
+              </form>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Recurring;
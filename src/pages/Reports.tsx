@@ -0,0 +1,45 @@
+import { useSearchParams } from 'react-router-dom';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FileBarChart } from 'lucide-react';
+import DepreciationReport from '@/components/reports/DepreciationReport';
+import CategoryReport from '@/components/reports/CategoryReport';
+import ComparisonReport from '@/components/reports/ComparisonReport';
+import ForecastReport from '@/components/reports/ForecastReport';
+
+const Reports = () => {
+  // The open tab lives in the URL so other pages can link straight to a report
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = searchParams.get('tab') || 'depreciation';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <FileBarChart className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold text-foreground">Reports</h1>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => setSearchParams({ tab: value })} className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="depreciation">Currency Depreciation</TabsTrigger>
+          <TabsTrigger value="categories">Spending by Category</TabsTrigger>
+          <TabsTrigger value="comparison">Period Comparison</TabsTrigger>
+          <TabsTrigger value="forecast">Cash-flow Forecast</TabsTrigger>
+        </TabsList>
+        <TabsContent value="depreciation">
+          <DepreciationReport />
+        </TabsContent>
+        <TabsContent value="categories">
+          <CategoryReport />
+        </TabsContent>
+        <TabsContent value="comparison">
+          <ComparisonReport />
+        </TabsContent>
+        <TabsContent value="forecast">
+          <ForecastReport />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default Reports;
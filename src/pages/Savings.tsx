@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useConsumerPriceIndex } from '@/hooks/useConsumerPriceIndex';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -12,8 +13,13 @@ import { Badge } from '@/components/ui/badge';
 import { Plus, Edit, Trash2, PiggyBank, ArrowUpCircle, ArrowDownCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import CurrencySelect from '@/components/CurrencySelect';
+import { Currency, formatCurrency } from '@/lib/currency';
+import { amountStep, formatMoney, money, parseAmount } from '@/lib/money';
+import { todaysValue } from '@/lib/inflation';
+import { isPeriodLockedError } from '@/lib/periodLocks';
+import { GOAL_STATUS_LABELS, GoalStatus, contributionWindowStart, projectGoal } from '@/lib/goalProjections';
 
-type Currency = 'USD' | 'GHS';
 type GoalType = 'vacation' | 'car_service' | 'tech_stocks' | 'emergency' | 'other';
 
 interface SavingsGoal {
@@ -40,7 +46,9 @@ interface SavingsTransaction {
 const Savings = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { series: cpi } = useConsumerPriceIndex();
   const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>([]);
+  const [transactions, setTransactions] = useState<SavingsTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [isGoalDialogOpen, setIsGoalDialogOpen] = useState(false);
   const [isTransactionDialogOpen, setIsTransactionDialogOpen] = useState(false);
@@ -79,7 +87,18 @@ const Savings = () => {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
+
+      // Recent transactions give each goal's contribution rate
+      const { data: transactionData, error: transactionError } = await supabase
+        .from('savings_transactions')
+        .select('*')
+        .in('savings_goal_id', (data || []).map((goal) => goal.id))
+        .gte('transaction_date', contributionWindowStart());
+
+      if (transactionError) throw transactionError;
+
       setSavingsGoals((data || []) as SavingsGoal[]);
+      setTransactions((transactionData || []) as SavingsTransaction[]);
     } catch (error) {
       console.error('Error fetching savings goals:', error);
       toast({
@@ -108,7 +127,7 @@ const Savings = () => {
       const goalData = {
         user_id: user?.id,
         name: goalFormData.name,
-        target_amount: parseFloat(goalFormData.target_amount),
+        target_amount: parseAmount(goalFormData.target_amount, goalFormData.currency),
         currency: goalFormData.currency,
         target_date: goalFormData.target_date || null,
         goal_type: goalFormData.goal_type,
@@ -176,7 +195,7 @@ const Savings = () => {
     try {
       const transactionData = {
         savings_goal_id: selectedGoal.id,
-        amount: parseFloat(transactionFormData.amount),
+        amount: parseAmount(transactionFormData.amount, selectedGoal.currency),
         transaction_type: transactionFormData.transaction_type,
         description: transactionFormData.description,
         transaction_date: transactionFormData.transaction_date,
@@ -206,7 +225,9 @@ const Savings = () => {
       console.error('Error saving transaction:', error);
       toast({
         title: "Error",
-        description: "Failed to save transaction",
+        description: isPeriodLockedError(error)
+          ? "This date falls in a locked period. Reopen it in Settings to record transactions"
+          : "Failed to save transaction",
         variant: "destructive",
       });
     }
@@ -243,17 +264,15 @@ const Savings = () => {
       console.error('Error deleting savings goal:', error);
       toast({
         title: "Error",
-        description: "Failed to delete savings goal",
+        // A goal can't be deleted while any of its transactions is in a locked period
+        description: isPeriodLockedError(error)
+          ? "This goal has transactions in a locked period"
+          : "Failed to delete savings goal",
         variant: "destructive",
       });
     }
   };
 
-  const formatCurrency = (amount: number, currency: Currency) => {
-    const symbol = currency === 'USD' ? '$' : '₵';
-    return `${symbol}${amount.toLocaleString()}`;
-  };
-
   const getGoalProgress = (current: number, target: number) => {
     return Math.min((current / target) * 100, 100);
   };
@@ -269,6 +288,16 @@ const Savings = () => {
     return colors[type];
   };
 
+  const getStatusColor = (status: GoalStatus) => {
+    const colors = {
+      complete: 'bg-green-100 text-green-800',
+      'on-track': 'bg-green-100 text-green-800',
+      'at-risk': 'bg-yellow-100 text-yellow-800',
+      behind: 'bg-red-100 text-red-800',
+    };
+    return colors[status];
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -320,7 +349,7 @@ const Savings = () => {
                   <Input
                     id="target-amount"
                     type="number"
-                    step="0.01"
+                    step={amountStep(goalFormData.currency)}
                     placeholder="0.00"
                     value={goalFormData.target_amount}
                     onChange={(e) => setGoalFormData({...goalFormData, target_amount: e.target.value})}
@@ -329,15 +358,7 @@ const Savings = () => {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="goal-currency">Currency</Label>
-                  <Select value={goalFormData.currency} onValueChange={(value: Currency) => setGoalFormData({...goalFormData, currency: value})}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="USD">USD ($)</SelectItem>
-                      <SelectItem value="GHS">GHS (₵)</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <CurrencySelect value={goalFormData.currency} onValueChange={(value) => setGoalFormData({...goalFormData, currency: value})} />
                 </div>
               </div>
 
@@ -407,7 +428,7 @@ const Savings = () => {
                 <Input
                   id="transaction-amount"
                   type="number"
-                  step="0.01"
+                  step={amountStep(selectedGoal?.currency || 'USD')}
                   placeholder="0.00"
                   value={transactionFormData.amount}
                   onChange={(e) => setTransactionFormData({...transactionFormData, amount: e.target.value})}
@@ -476,6 +497,10 @@ const Savings = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {savingsGoals.map((goal) => {
             const progress = getGoalProgress(goal.current_amount, goal.target_amount);
+            const realTarget = goal.target_date
+              ? todaysValue(money(goal.target_amount, goal.currency), goal.target_date, cpi)
+              : null;
+            const projection = projectGoal(goal, transactions.filter((transaction) => transaction.savings_goal_id === goal.id));
             return (
               <Card key={goal.id} className="relative">
                 <CardHeader>
@@ -506,6 +531,35 @@ const Savings = () => {
                     </p>
                   )}
 
+                  {projection.status !== 'complete' && (
+                    <div className="space-y-1 text-sm">
+                      {projection.status && (
+                        <Badge className={getStatusColor(projection.status)}>
+                          {GOAL_STATUS_LABELS[projection.status]}
+                        </Badge>
+                      )}
+                      <p className="text-muted-foreground">
+                        Saving {formatMoney(projection.monthlyRate)}/month recently
+                      </p>
+                      <p className="text-muted-foreground">
+                        {projection.projectedDate
+                          ? `Projected completion: ${new Date(projection.projectedDate).toLocaleDateString()}`
+                          : 'No recent deposits to project a completion date from'}
+                      </p>
+                      {projection.requiredMonthly && (
+                        <p className="text-muted-foreground">
+                          Needs {formatMoney(projection.requiredMonthly)}/month to finish on time
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {realTarget && (
+                    <p className="text-sm text-muted-foreground">
+                      ≈ {formatMoney(realTarget.money)} in today's money at {(realTarget.inflation * 100).toFixed(1)}% annual inflation
+                    </p>
+                  )}
+
                   <div className="flex space-x-2">
                     <Button
                       size="sm"
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useFiscalYear } from '@/hooks/useFiscalYear';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarRange, Settings as SettingsIcon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import PeriodLocksManager from '@/components/settings/PeriodLocksManager';
+import EnvelopeBudgetingSettings from '@/components/settings/EnvelopeBudgetingSettings';
+import { MONTH_NAMES, PeriodKind, fiscalYearOf, resolvePeriod } from '@/lib/periods';
+import { FISCAL_YEAR_LOCKED_ERROR } from '@/lib/periodLocks';
+import { isFiscalYearBudgetsError } from '@/lib/budgets';
+
+const Settings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { startMonth, years, refetch } = useFiscalYear();
+  const [selectedStartMonth, setSelectedStartMonth] = useState(startMonth);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setSelectedStartMonth(startMonth);
+  }, [startMonth]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ fiscal_year_start_month: selectedStartMonth })
+        .eq('user_id', user?.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Fiscal year updated successfully",
+      });
+      refetch();
+    } catch (error) {
+      console.error('Error updating fiscal year:', error);
+      toast({
+        title: "Error",
+        description: (error as { code?: string })?.code === FISCAL_YEAR_LOCKED_ERROR
+          ? "Reopen all locked periods before changing the fiscal year"
+          : isFiscalYearBudgetsError(error)
+            ? "Budgets are set per fiscal period, so delete them before changing the fiscal year"
+            : "Failed to update fiscal year",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Preview of the current fiscal year and its first quarter under the selected start month
+  const preview = (kind: PeriodKind) => resolvePeriod(
+    { kind, year: fiscalYearOf(new Date(), selectedStartMonth), index: 1, customStart: '', customEnd: '' },
+    selectedStartMonth
+  );
+  const previewYear = preview('year');
+  const previewQuarter = preview('quarter');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <SettingsIcon className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <CalendarRange className="mr-2 h-5 w-5" />
+            Fiscal Year
+          </CardTitle>
+          <CardDescription>
+            Choose the month your financial year starts in. Quarters, half-years and years across the app follow it.
+            It can't change while any periods are locked or any budgets exist.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="fiscal-start">Fiscal year starts in</Label>
+            <Select value={selectedStartMonth.toString()} onValueChange={(value) => setSelectedStartMonth(parseInt(value))}>
+              <SelectTrigger id="fiscal-start">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MONTH_NAMES.map((name, i) => (
+                  <SelectItem key={name} value={(i + 1).toString()}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {previewYear.label} runs {previewYear.start} to {previewYear.end}; {previewQuarter.label} is {previewQuarter.start} to {previewQuarter.end}.
+          </p>
+
+          <Button onClick={handleSave} disabled={saving || selectedStartMonth === startMonth}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <EnvelopeBudgetingSettings />
+
+      <PeriodLocksManager startMonth={startMonth} years={years} />
+    </div>
+  );
+};
+
+export default Settings;
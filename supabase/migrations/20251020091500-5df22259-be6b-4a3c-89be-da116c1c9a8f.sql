@@ -0,0 +1,10 @@
+-- Add currencies used by family abroad and for regional travel
+ALTER TYPE currency_type ADD VALUE IF NOT EXISTS 'EUR';
+ALTER TYPE currency_type ADD VALUE IF NOT EXISTS 'GBP';
+ALTER TYPE currency_type ADD VALUE IF NOT EXISTS 'NGN';
+ALTER TYPE currency_type ADD VALUE IF NOT EXISTS 'XOF';
+
+-- A rate must convert between two different currencies; any such pair is allowed
+ALTER TABLE public.currency_rates
+  ADD CONSTRAINT currency_rates_distinct_pair CHECK (from_currency <> to_currency);
+
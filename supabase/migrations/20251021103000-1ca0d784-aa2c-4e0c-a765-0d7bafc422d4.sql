@@ -0,0 +1,40 @@
+-- Create currency exchange table: money changed from one currency into another
+CREATE TABLE public.currency_exchanges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exchange_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  from_amount DECIMAL(15,2) NOT NULL CHECK (from_amount > 0),
+  from_currency currency_type NOT NULL,
+  to_amount DECIMAL(15,2) NOT NULL CHECK (to_amount > 0),
+  to_currency currency_type NOT NULL,
+  -- Units of to_currency received per unit of from_currency
+  effective_rate DECIMAL(15,6) GENERATED ALWAYS AS (to_amount / from_amount) STORED,
+  provider TEXT,
+  fee_amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (fee_amount >= 0),
+  fee_currency currency_type,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (from_currency <> to_currency)
+);
+
+ALTER TABLE public.currency_exchanges ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for currency exchanges
+CREATE POLICY "Users can view their own currency exchanges" ON public.currency_exchanges
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own currency exchanges" ON public.currency_exchanges
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own currency exchanges" ON public.currency_exchanges
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own currency exchanges" ON public.currency_exchanges
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_currency_exchanges_updated_at
+  BEFORE UPDATE ON public.currency_exchanges
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_currency_exchanges_user_date ON public.currency_exchanges (user_id, exchange_date);
@@ -0,0 +1,31 @@
+-- Create consumer price index table for inflation-adjusted reporting
+CREATE TABLE public.consumer_price_index (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Currency whose prices the index tracks (GHS for Ghana Statistical Service CPI)
+  currency currency_type NOT NULL DEFAULT 'GHS',
+  -- First day of the month the index applies to
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  index_value DECIMAL(12,4) NOT NULL CHECK (index_value > 0),
+  source TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(currency, month)
+);
+
+ALTER TABLE public.consumer_price_index ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for consumer price index
+CREATE POLICY "Everyone can view consumer price index" ON public.consumer_price_index
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage consumer price index" ON public.consumer_price_index
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles 
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE TRIGGER update_consumer_price_index_updated_at
+  BEFORE UPDATE ON public.consumer_price_index
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,40 @@
+-- Add a date to income records; existing rows are placed on the last day of their quarter
+ALTER TABLE public.income_records ADD COLUMN income_date DATE;
+
+UPDATE public.income_records
+SET income_date = (make_date(year, substr(quarter::text, 2)::integer * 3, 1) + INTERVAL '1 month - 1 day')::date;
+
+ALTER TABLE public.income_records
+  ALTER COLUMN income_date SET NOT NULL,
+  ALTER COLUMN income_date SET DEFAULT CURRENT_DATE;
+
+-- Create function to derive quarter and year from the record's date column (passed as the trigger argument)
+CREATE OR REPLACE FUNCTION public.set_record_period()
+RETURNS TRIGGER AS $$
+DECLARE
+  record_date DATE := (to_jsonb(NEW) ->> TG_ARGV[0])::date;
+BEGIN
+  NEW.quarter := ('Q' || EXTRACT(QUARTER FROM record_date))::quarter_period;
+  NEW.year := EXTRACT(YEAR FROM record_date)::integer;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create triggers so quarter and year can never disagree with the record's date
+CREATE TRIGGER set_income_records_period
+  BEFORE INSERT OR UPDATE ON public.income_records
+  FOR EACH ROW EXECUTE FUNCTION public.set_record_period('income_date');
+
+CREATE TRIGGER set_expense_records_period
+  BEFORE INSERT OR UPDATE ON public.expense_records
+  FOR EACH ROW EXECUTE FUNCTION public.set_record_period('expense_date');
+
+-- Correct expenses previously filed under a quarter that doesn't match their date
+UPDATE public.expense_records
+SET quarter = ('Q' || EXTRACT(QUARTER FROM expense_date))::quarter_period,
+    year = EXTRACT(YEAR FROM expense_date)::integer
+WHERE quarter <> ('Q' || EXTRACT(QUARTER FROM expense_date))::quarter_period
+   OR year <> EXTRACT(YEAR FROM expense_date)::integer;
+
+CREATE INDEX idx_income_records_user_date ON public.income_records (user_id, income_date);
+CREATE INDEX idx_expense_records_user_date ON public.expense_records (user_id, expense_date);
@@ -0,0 +1,54 @@
+-- Add fiscal year start month to profiles (1 = January, i.e. calendar quarters)
+ALTER TABLE public.profiles
+  ADD COLUMN fiscal_year_start_month INTEGER NOT NULL DEFAULT 1
+  CHECK (fiscal_year_start_month BETWEEN 1 AND 12);
+
+-- Create function mapping a date to its fiscal quarter and year. Fiscal years are
+-- named after the calendar year they end in: with a July start, 2025-08-15 is FY2026 Q1
+CREATE OR REPLACE FUNCTION public.fiscal_period(record_date DATE, start_month INTEGER, OUT quarter quarter_period, OUT year INTEGER)
+AS $$
+DECLARE
+  month INTEGER := EXTRACT(MONTH FROM record_date)::integer;
+BEGIN
+  quarter := ('Q' || ((month - start_month + 12) % 12 / 3 + 1))::quarter_period;
+  year := EXTRACT(YEAR FROM record_date)::integer
+    + CASE WHEN start_month > 1 AND month >= start_month THEN 1 ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Derive quarter and year using the record owner's fiscal year
+CREATE OR REPLACE FUNCTION public.set_record_period()
+RETURNS TRIGGER AS $$
+DECLARE
+  record_date DATE := (to_jsonb(NEW) ->> TG_ARGV[0])::date;
+  start_month INTEGER;
+  period RECORD;
+BEGIN
+  SELECT COALESCE(
+    (SELECT fiscal_year_start_month FROM public.profiles WHERE user_id = NEW.user_id),
+    1
+  ) INTO start_month;
+
+  SELECT * INTO period FROM public.fiscal_period(record_date, start_month);
+  NEW.quarter := period.quarter;
+  NEW.year := period.year;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create function to re-derive a user's record periods when their fiscal year changes
+CREATE OR REPLACE FUNCTION public.refresh_record_periods()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Rewriting the date re-runs set_record_period with the new start month
+  UPDATE public.income_records SET income_date = income_date WHERE user_id = NEW.user_id;
+  UPDATE public.expense_records SET expense_date = expense_date WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_record_periods_on_fiscal_year_change
+  AFTER UPDATE OF fiscal_year_start_month ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.fiscal_year_start_month IS DISTINCT FROM NEW.fiscal_year_start_month)
+  EXECUTE FUNCTION public.refresh_record_periods();
@@ -0,0 +1,131 @@
+-- Create period locks table: a closed fiscal quarter whose records can no longer change
+CREATE TABLE public.period_locks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quarter quarter_period NOT NULL,
+  -- Fiscal year, as stored on income and expense records
+  year INTEGER NOT NULL,
+  locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reopened_at TIMESTAMP WITH TIME ZONE,
+  reopen_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (reopened_at IS NULL OR length(trim(reopen_reason)) > 0)
+);
+
+-- Reopened locks are kept as history, so only one lock per quarter may be active
+CREATE UNIQUE INDEX idx_period_locks_active ON public.period_locks (user_id, year, quarter)
+  WHERE reopened_at IS NULL;
+
+ALTER TABLE public.period_locks ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for period locks (no delete: reopening is recorded instead)
+CREATE POLICY "Users can view their own period locks" ON public.period_locks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own period locks" ON public.period_locks
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own period locks" ON public.period_locks
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_period_locks_updated_at
+  BEFORE UPDATE ON public.period_locks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create function to keep reopened locks unchanged
+CREATE OR REPLACE FUNCTION public.protect_reopened_period_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.reopened_at IS NOT NULL THEN
+    RAISE EXCEPTION 'A reopened period lock cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_reopened_period_locks
+  BEFORE UPDATE ON public.period_locks
+  FOR EACH ROW EXECUTE FUNCTION public.protect_reopened_period_lock();
+
+-- Create function to check whether a user's date falls in one of their locked quarters
+CREATE OR REPLACE FUNCTION public.is_period_locked(owner_id UUID, record_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.period_locks l,
+      public.fiscal_period(
+        record_date,
+        COALESCE((SELECT fiscal_year_start_month FROM public.profiles WHERE user_id = owner_id), 1)
+      ) f
+    WHERE l.user_id = owner_id
+      AND l.reopened_at IS NULL
+      AND l.quarter = f.quarter
+      AND l.year = f.year
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Create function rejecting changes to records dated in a locked quarter. Both the old
+-- and new row are checked, so records can't be moved into or out of a locked quarter
+CREATE OR REPLACE FUNCTION public.enforce_period_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  versions JSONB[] := ARRAY[]::JSONB[];
+  version JSONB;
+  owner_id UUID;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    versions := array_append(versions, to_jsonb(OLD));
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    versions := array_append(versions, to_jsonb(NEW));
+  END IF;
+
+  FOREACH version IN ARRAY versions LOOP
+    IF TG_TABLE_NAME = 'savings_transactions' THEN
+      SELECT user_id INTO owner_id FROM public.savings_goals WHERE id = (version ->> 'savings_goal_id')::uuid;
+    ELSE
+      owner_id := (version ->> 'user_id')::uuid;
+    END IF;
+
+    IF public.is_period_locked(owner_id, (version ->> TG_ARGV[0])::date) THEN
+      RAISE EXCEPTION 'The period containing % is locked', version ->> TG_ARGV[0]
+        USING ERRCODE = 'PL001', HINT = 'Reopen the period before changing its records';
+    END IF;
+  END LOOP;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create triggers enforcing period locks
+CREATE TRIGGER enforce_income_records_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.income_records
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock('income_date');
+
+CREATE TRIGGER enforce_expense_records_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.expense_records
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock('expense_date');
+
+CREATE TRIGGER enforce_savings_transactions_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.savings_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_period_lock('transaction_date');
+
+-- Locks are stored as fiscal quarters, so the fiscal year can't move while any are active
+CREATE OR REPLACE FUNCTION public.refresh_record_periods()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.period_locks WHERE user_id = NEW.user_id AND reopened_at IS NULL) THEN
+    RAISE EXCEPTION 'Reopen all locked periods before changing the fiscal year'
+      USING ERRCODE = 'PL002';
+  END IF;
+
+  -- Rewriting the date re-runs set_record_period with the new start month
+  UPDATE public.income_records SET income_date = income_date WHERE user_id = NEW.user_id;
+  UPDATE public.expense_records SET expense_date = expense_date WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
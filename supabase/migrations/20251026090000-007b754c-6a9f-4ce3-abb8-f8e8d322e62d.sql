@@ -0,0 +1,21 @@
+-- Create spending flag dismissals table: unusual spending the user has reviewed
+CREATE TABLE public.spending_flag_dismissals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Identifies the flag, e.g. expense:<id>:duplicate or category:<id>:FY2025 Q3
+  flag_key TEXT NOT NULL,
+  dismissed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, flag_key)
+);
+
+ALTER TABLE public.spending_flag_dismissals ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for spending flag dismissals
+CREATE POLICY "Users can view their own spending flag dismissals" ON public.spending_flag_dismissals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own spending flag dismissals" ON public.spending_flag_dismissals
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own spending flag dismissals" ON public.spending_flag_dismissals
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,82 @@
+-- Create net worth items table: things owned (assets) or owed (liabilities)
+CREATE TABLE public.net_worth_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  item_type TEXT NOT NULL CHECK (item_type IN (
+    'bank_account', 'mobile_money', 'cash', 'land', 'vehicle', 'investment', 'other_asset',
+    'loan', 'credit_card', 'other_liability'
+  )),
+  currency currency_type NOT NULL DEFAULT 'USD',
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create net worth valuations table: an item's value, or balance owed, on a date
+CREATE TABLE public.net_worth_valuations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  item_id UUID NOT NULL REFERENCES public.net_worth_items(id) ON DELETE CASCADE,
+  valuation_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- In the item's currency; liabilities are stored as positive balances owed
+  value DECIMAL(15,2) NOT NULL CHECK (value >= 0),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(item_id, valuation_date)
+);
+
+CREATE INDEX idx_net_worth_valuations_item_date ON public.net_worth_valuations (item_id, valuation_date);
+
+ALTER TABLE public.net_worth_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.net_worth_valuations ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for net worth items
+CREATE POLICY "Users can view their own net worth items" ON public.net_worth_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own net worth items" ON public.net_worth_items
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own net worth items" ON public.net_worth_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own net worth items" ON public.net_worth_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for net worth valuations
+CREATE POLICY "Users can view their own net worth valuations" ON public.net_worth_valuations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.net_worth_items
+      WHERE id = item_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create their own net worth valuations" ON public.net_worth_valuations
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.net_worth_items
+      WHERE id = item_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own net worth valuations" ON public.net_worth_valuations
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.net_worth_items
+      WHERE id = item_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own net worth valuations" ON public.net_worth_valuations
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.net_worth_items
+      WHERE id = item_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_net_worth_items_updated_at
+  BEFORE UPDATE ON public.net_worth_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
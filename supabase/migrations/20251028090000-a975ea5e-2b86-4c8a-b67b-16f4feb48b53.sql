@@ -0,0 +1,27 @@
+-- Create dashboard preferences table: each user's widget layout and defaults
+CREATE TABLE public.dashboard_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Ordered widgets with their width, e.g. [{"id": "income", "size": 25}]
+  widgets JSONB NOT NULL DEFAULT '[]'::jsonb,
+  default_period_kind TEXT NOT NULL DEFAULT 'quarter' CHECK (default_period_kind IN ('month', 'quarter', 'half', 'year')),
+  default_currency currency_type NOT NULL DEFAULT 'USD',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.dashboard_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for dashboard preferences
+CREATE POLICY "Users can view their own dashboard preferences" ON public.dashboard_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own dashboard preferences" ON public.dashboard_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own dashboard preferences" ON public.dashboard_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_dashboard_preferences_updated_at
+  BEFORE UPDATE ON public.dashboard_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
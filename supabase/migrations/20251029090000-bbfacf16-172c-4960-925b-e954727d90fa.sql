@@ -0,0 +1,42 @@
+-- Create budgets table: planned spend per expense category for a fiscal month or quarter
+CREATE TABLE public.budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+  period_type TEXT NOT NULL CHECK (period_type IN ('month', 'quarter')),
+  -- Fiscal year, as stored on income and expense records
+  year INTEGER NOT NULL,
+  -- Month (1-12) or quarter (1-4) within the fiscal year
+  period_index INTEGER NOT NULL,
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  currency currency_type NOT NULL DEFAULT 'USD',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (period_type = 'month' AND period_index BETWEEN 1 AND 12) OR
+    (period_type = 'quarter' AND period_index BETWEEN 1 AND 4)
+  ),
+  UNIQUE(user_id, category_id, period_type, year, period_index)
+);
+
+CREATE INDEX idx_budgets_user_period ON public.budgets (user_id, year, period_type, period_index);
+
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for budgets
+CREATE POLICY "Users can view their own budgets" ON public.budgets
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budgets" ON public.budgets
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budgets" ON public.budgets
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budgets" ON public.budgets
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_budgets_updated_at
+  BEFORE UPDATE ON public.budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,38 @@
+-- Add alert thresholds to budgets: percentages of the budget at which to alert
+ALTER TABLE public.budgets
+  ADD COLUMN alert_thresholds INTEGER[] NOT NULL DEFAULT '{75,90,100}'
+  CHECK (0 < ALL (alert_thresholds) AND 1000 >= ALL (alert_thresholds));
+
+-- Create budget alerts table: a budget's spend reaching one of its thresholds
+CREATE TABLE public.budget_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+  threshold INTEGER NOT NULL,
+  -- Spend when the alert was raised, in the budget's currency
+  spent DECIMAL(15,2) NOT NULL,
+  percent_used DECIMAL(7,2) NOT NULL,
+  -- The expense whose save crossed the threshold, when there was one
+  expense_id UUID REFERENCES public.expense_records(id) ON DELETE SET NULL,
+  triggered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  read_at TIMESTAMP WITH TIME ZONE,
+  -- Each threshold alerts once per budget
+  UNIQUE(budget_id, threshold)
+);
+
+CREATE INDEX idx_budget_alerts_user_triggered ON public.budget_alerts (user_id, triggered_at DESC);
+
+ALTER TABLE public.budget_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for budget alerts
+CREATE POLICY "Users can view their own budget alerts" ON public.budget_alerts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budget alerts" ON public.budget_alerts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budget alerts" ON public.budget_alerts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budget alerts" ON public.budget_alerts
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,119 @@
+-- Add envelope budgeting to profiles: the date from which income is assigned to
+-- envelopes and spending draws them down; NULL while envelope budgeting is off
+ALTER TABLE public.profiles
+  ADD COLUMN envelope_budgeting_since DATE;
+
+-- Create envelope allocations table: part of an income record assigned to an
+-- expense category's or savings goal's envelope
+CREATE TABLE public.envelope_allocations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  income_record_id UUID NOT NULL REFERENCES public.income_records(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+  savings_goal_id UUID REFERENCES public.savings_goals(id) ON DELETE CASCADE,
+  -- In the income record's currency
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(category_id, savings_goal_id) = 1),
+  UNIQUE(income_record_id, category_id),
+  UNIQUE(income_record_id, savings_goal_id)
+);
+
+-- Create envelope transfers table: money moved between envelopes, kept as a log
+CREATE TABLE public.envelope_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_category_id UUID REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+  from_savings_goal_id UUID REFERENCES public.savings_goals(id) ON DELETE CASCADE,
+  to_category_id UUID REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+  to_savings_goal_id UUID REFERENCES public.savings_goals(id) ON DELETE CASCADE,
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  currency currency_type NOT NULL DEFAULT 'USD',
+  transfer_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(from_category_id, from_savings_goal_id) = 1),
+  CHECK (num_nonnulls(to_category_id, to_savings_goal_id) = 1),
+  CHECK (
+    from_category_id IS DISTINCT FROM to_category_id
+    OR from_savings_goal_id IS DISTINCT FROM to_savings_goal_id
+  )
+);
+
+CREATE INDEX idx_envelope_allocations_income ON public.envelope_allocations (income_record_id);
+CREATE INDEX idx_envelope_transfers_user_date ON public.envelope_transfers (user_id, transfer_date);
+
+ALTER TABLE public.envelope_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.envelope_transfers ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for envelope allocations
+CREATE POLICY "Users can view their own envelope allocations" ON public.envelope_allocations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own envelope allocations" ON public.envelope_allocations
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.income_records
+      WHERE id = income_record_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own envelope allocations" ON public.envelope_allocations
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own envelope allocations" ON public.envelope_allocations
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for envelope transfers (no update or delete: the log is append-only)
+CREATE POLICY "Users can view their own envelope transfers" ON public.envelope_transfers
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own envelope transfers" ON public.envelope_transfers
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_envelope_allocations_updated_at
+  BEFORE UPDATE ON public.envelope_allocations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create function keeping an income record's allocations within its amount
+CREATE OR REPLACE FUNCTION public.enforce_allocation_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  income_id UUID;
+  income_amount DECIMAL(15,2);
+  allocated DECIMAL(15,2);
+BEGIN
+  IF TG_TABLE_NAME = 'income_records' THEN
+    income_id := NEW.id;
+    income_amount := NEW.amount;
+  ELSE
+    income_id := NEW.income_record_id;
+    SELECT amount INTO income_amount FROM public.income_records WHERE id = income_id;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO allocated
+  FROM public.envelope_allocations
+  WHERE income_record_id = income_id
+    AND (TG_TABLE_NAME = 'income_records' OR id <> NEW.id);
+
+  IF TG_TABLE_NAME = 'envelope_allocations' THEN
+    allocated := allocated + NEW.amount;
+  END IF;
+
+  IF allocated > income_amount THEN
+    RAISE EXCEPTION 'Allocations of % exceed the income amount of %', allocated, income_amount
+      USING ERRCODE = 'EV001', HINT = 'Reduce the income record''s allocations first';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create triggers enforcing the allocation limit from both sides
+CREATE TRIGGER enforce_envelope_allocations_limit
+  BEFORE INSERT OR UPDATE ON public.envelope_allocations
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_allocation_limit();
+
+CREATE TRIGGER enforce_income_records_allocation_limit
+  BEFORE UPDATE OF amount ON public.income_records
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_allocation_limit();
@@ -0,0 +1,9 @@
+-- Add rollover rules to budgets: what a budget's leftover or overspend carries
+-- into the same category's next month or quarter
+ALTER TABLE public.budgets
+  ADD COLUMN rollover_policy TEXT NOT NULL DEFAULT 'reset'
+    CHECK (rollover_policy IN ('reset', 'carry_surplus', 'carry_deficit', 'carry_both', 'capped')),
+  -- Largest amount carried either way under the capped policy, in the budget's currency
+  ADD COLUMN rollover_cap DECIMAL(15,2) CHECK (rollover_cap >= 0),
+  ADD CONSTRAINT budgets_rollover_cap_check
+    CHECK (rollover_policy <> 'capped' OR rollover_cap IS NOT NULL);
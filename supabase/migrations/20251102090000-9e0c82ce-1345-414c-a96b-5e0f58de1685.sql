@@ -0,0 +1,93 @@
+-- Create recurring templates table: income or expenses that repeat on a schedule
+CREATE TABLE public.recurring_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('income', 'expense')),
+  -- Income source, for income templates
+  source TEXT,
+  -- Expense category, for expense templates
+  category_id UUID REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+  description TEXT,
+  -- Applies to occurrences not yet confirmed; confirmed records keep their own amount
+  amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+  currency currency_type NOT NULL DEFAULT 'USD',
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  -- Day of the month for monthly and longer schedules: 1-31, clamped to short
+  -- months, or -1 for the last day; NULL follows the start date
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31 OR day_of_month = -1),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  -- Record occurrences as they fall due instead of waiting for confirmation
+  auto_create BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date),
+  CHECK (
+    (kind = 'income' AND source IS NOT NULL AND length(trim(source)) > 0 AND category_id IS NULL) OR
+    (kind = 'expense' AND category_id IS NOT NULL)
+  )
+);
+
+-- Create recurring occurrences table: each due date of a template, pending
+-- until it is recorded or skipped. Kept after skipping so the date isn't
+-- generated again.
+CREATE TABLE public.recurring_occurrences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES public.recurring_templates(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'skipped')),
+  -- Overrides the template's amount for this occurrence only
+  amount DECIMAL(15,2) CHECK (amount > 0),
+  income_record_id UUID REFERENCES public.income_records(id) ON DELETE SET NULL,
+  expense_record_id UUID REFERENCES public.expense_records(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(template_id, occurrence_date)
+);
+
+CREATE INDEX idx_recurring_templates_user ON public.recurring_templates (user_id);
+CREATE INDEX idx_recurring_occurrences_user_status ON public.recurring_occurrences (user_id, status);
+
+ALTER TABLE public.recurring_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_occurrences ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for recurring templates
+CREATE POLICY "Users can view their own recurring templates" ON public.recurring_templates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring templates" ON public.recurring_templates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring templates" ON public.recurring_templates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring templates" ON public.recurring_templates
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for recurring occurrences
+CREATE POLICY "Users can view their own recurring occurrences" ON public.recurring_occurrences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring occurrences" ON public.recurring_occurrences
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.recurring_templates
+      WHERE id = template_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own recurring occurrences" ON public.recurring_occurrences
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring occurrences" ON public.recurring_occurrences
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_templates_updated_at
+  BEFORE UPDATE ON public.recurring_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_recurring_occurrences_updated_at
+  BEFORE UPDATE ON public.recurring_occurrences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
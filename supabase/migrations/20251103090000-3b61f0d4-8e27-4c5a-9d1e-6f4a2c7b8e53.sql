@@ -0,0 +1,42 @@
+-- Deleting a goal cascades to its transactions after the goal row is gone, when their
+-- owner can no longer be looked up, so the lock is checked on the goal itself instead
+CREATE OR REPLACE FUNCTION public.enforce_savings_goal_period_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  locked_date DATE;
+BEGIN
+  SELECT transaction_date INTO locked_date
+  FROM public.savings_transactions
+  WHERE savings_goal_id = OLD.id
+    AND public.is_period_locked(OLD.user_id, transaction_date)
+  LIMIT 1;
+
+  IF locked_date IS NOT NULL THEN
+    RAISE EXCEPTION 'The period containing % is locked', locked_date
+      USING ERRCODE = 'PL001', HINT = 'Reopen the period before deleting this goal';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_savings_goals_period_lock
+  BEFORE DELETE ON public.savings_goals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_savings_goal_period_lock();
+
+-- Only reopening may change a lock: the quarter it covers is fixed once locked
+REVOKE UPDATE ON public.period_locks FROM anon, authenticated;
+GRANT UPDATE (reopened_at, reopen_reason) ON public.period_locks TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.protect_reopened_period_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.reopened_at IS NOT NULL THEN
+    RAISE EXCEPTION 'A reopened period lock cannot be changed';
+  END IF;
+  IF NEW.user_id <> OLD.user_id OR NEW.quarter <> OLD.quarter OR NEW.year <> OLD.year
+    OR NEW.locked_at <> OLD.locked_at THEN
+    RAISE EXCEPTION 'A period lock can only be reopened';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,21 @@
+-- Budgets are stored as fiscal periods (year and index), so like period locks they
+-- would silently move to other calendar months if the fiscal year start changed
+CREATE OR REPLACE FUNCTION public.refresh_record_periods()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.period_locks WHERE user_id = NEW.user_id AND reopened_at IS NULL) THEN
+    RAISE EXCEPTION 'Reopen all locked periods before changing the fiscal year'
+      USING ERRCODE = 'PL002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.budgets WHERE user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'Delete all budgets before changing the fiscal year'
+      USING ERRCODE = 'BU001';
+  END IF;
+
+  -- Rewriting the date re-runs set_record_period with the new start month
+  UPDATE public.income_records SET income_date = income_date WHERE user_id = NEW.user_id;
+  UPDATE public.expense_records SET expense_date = expense_date WHERE user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
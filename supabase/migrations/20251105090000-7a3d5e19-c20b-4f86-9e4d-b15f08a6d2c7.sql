@@ -0,0 +1,9 @@
+-- Create function listing the fiscal years the current user has income or expense records in.
+-- Returns one row per year, so the year selector doesn't depend on reading every record
+CREATE OR REPLACE FUNCTION public.record_years()
+RETURNS SETOF INTEGER AS $$
+  SELECT year FROM public.income_records WHERE user_id = auth.uid()
+  UNION
+  SELECT year FROM public.expense_records WHERE user_id = auth.uid()
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;